@@ -91,6 +91,13 @@ export interface AssetDatatoken {
 
 export interface AssetLastEvent {
   tx: string
+
+  /**
+   * Transaction of the event, as returned by older Aquarius versions instead of `tx`.
+   * @type {string}
+   */
+  txid?: string
+
   block: number
   from: string
   contract: string
@@ -126,6 +133,12 @@ export interface Asset extends DDO {
      * @type {string}
      */
     orders: number
+
+    /**
+     * Price of the datatoken, 0 for free assets, missing when the asset has no pricing schema.
+     * @type {{ value: number; tokenAddress?: string; tokenSymbol?: string }}
+     */
+    price?: { value: number; tokenAddress?: string; tokenSymbol?: string }
   }
 
   /**
@@ -6,6 +6,24 @@ export type ComputeResultType =
   | 'configrationLog'
   | 'publishLog'
 
+/* eslint-disable no-unused-vars */
+/**
+ * Status codes reported by the compute-to-data operator in `ComputeJob.status`.
+ */
+export enum ComputeJobStatus {
+  WarmingUp = 1,
+  Started = 10,
+  ConfiguringVolumes = 20,
+  ProvisioningSuccess = 30,
+  DataProvisioningFailed = 31,
+  AlgorithmProvisioningFailed = 32,
+  RunningAlgorithm = 40,
+  FilteringResults = 50,
+  PublishingResults = 60,
+  Finished = 70
+}
+/* eslint-enable no-unused-vars */
+
 export interface ComputeEnvironment {
   id: string
   cpuNumber: number
@@ -24,6 +42,22 @@ export interface ComputeEnvironment {
   lastSeen: number
 }
 
+export interface RankedComputeEnvironment {
+  environment: ComputeEnvironment
+
+  /**
+   * Estimated provider fee for the requested duration, in provider fee tokens.
+   * @type {number}
+   */
+  estimatedCost: number
+
+  /**
+   * Number of jobs the environment can still start.
+   * @type {number}
+   */
+  freeSlots: number
+}
+
 export interface ComputeResult {
   filename: string
   filesize: number
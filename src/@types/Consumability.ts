@@ -0,0 +1,54 @@
+import { Service } from './DDO/Service'
+
+export type ConsumabilityReason =
+  | 'nft-not-active'
+  | 'ordering-disabled'
+  | 'purgatory'
+  | 'address-denied'
+  | 'address-not-allowed'
+  | 'unsupported-credential-type'
+  | 'service-not-found'
+  | 'no-pricing'
+
+export interface ConsumabilityIssue {
+  reason: ConsumabilityReason
+
+  /**
+   * Explanation that can be shown to the consumer.
+   * @type {string}
+   */
+  message: string
+}
+
+export interface Consumability {
+  /**
+   * True when nothing prevents the consumer from ordering the service.
+   * @type {boolean}
+   */
+  consumable: boolean
+
+  /**
+   * Every reason the service can not be consumed, empty when it can.
+   * @type {ConsumabilityIssue[]}
+   */
+  issues: ConsumabilityIssue[]
+
+  /**
+   * The checked service, null when the asset does not have it.
+   * @type {Service}
+   */
+  service: Service
+
+  /**
+   * Time in seconds the consumer can use the service after ordering, 0 means forever.
+   * @type {number}
+   */
+  timeout: number
+
+  /**
+   * Whether the datatoken has a fixed rate, dispenser or pool, undefined when
+   * pricing was not checked.
+   * @type {boolean}
+   */
+  hasPricing?: boolean
+}
@@ -0,0 +1,43 @@
+export interface ConsumerParameter {
+  /**
+   * Parameter name, the key of the value in the userdata.
+   * @type {string}
+   */
+  name: string
+
+  /**
+   * Type of the value, `select` values must be one of the options.
+   * @type {'text' | 'number' | 'boolean' | 'select'}
+   */
+  type: 'text' | 'number' | 'boolean' | 'select'
+
+  /**
+   * Label shown to the consumer.
+   * @type {string}
+   */
+  label: string
+
+  /**
+   * If true, the consumer must supply a value.
+   * @type {boolean}
+   */
+  required: boolean
+
+  /**
+   * Description of the parameter.
+   * @type {string}
+   */
+  description?: string
+
+  /**
+   * Value used when the consumer does not supply one.
+   * @type {string | number | boolean}
+   */
+  default: string | number | boolean
+
+  /**
+   * Allowed values of a `select` parameter, each mapping a value to its label.
+   * @type {{ [value: string]: string }[]}
+   */
+  options?: { [value: string]: string }[]
+}
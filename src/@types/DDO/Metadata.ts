@@ -1,3 +1,5 @@
+import { ConsumerParameter } from './ConsumerParameter'
+
 export interface MetadataAlgorithm {
   /**
    * Language used to implement the software.
@@ -46,6 +48,12 @@ export interface MetadataAlgorithm {
      */
     checksum: string
   }
+
+  /**
+   * Parameters the consumer supplies as algocustomdata when running the algorithm.
+   * @type {ConsumerParameter[]}
+   */
+  consumerParameters?: ConsumerParameter[]
 }
 
 export interface Metadata {
@@ -1,3 +1,5 @@
+import { ConsumerParameter } from './ConsumerParameter'
+
 export interface PublisherTrustedAlgorithm {
   /**
    * The DID of the algorithm which is trusted by the publisher.
@@ -102,6 +104,12 @@ export interface Service {
    */
   compute?: ServiceComputeOptions
 
+  /**
+   * Parameters the consumer supplies as userdata when ordering the service.
+   * @type {ConsumerParameter[]}
+   */
+  consumerParameters?: ConsumerParameter[]
+
   /**
    * Stores service specific additional information, this is customizable by publisher
    * @type {any}
@@ -1,3 +1,5 @@
+import { AbiItem } from 'web3-utils'
+
 export interface UrlFile {
   type: 'url'
 
@@ -18,10 +20,111 @@ export interface UrlFile {
    * @type {string}
    */
   method: string
+
+  /**
+   * Headers sent by the provider when fetching the file
+   * @type {{ [key: string]: string }}
+   */
+  headers?: { [key: string]: string }
+}
+
+export interface IpfsFile {
+  type: 'ipfs'
+
+  /**
+   * File index.
+   * @type {number}
+   */
+  index?: number
+
+  /**
+   * IPFS content identifier (CID) of the file.
+   * @type {string}
+   */
+  hash: string
+}
+
+export interface ArweaveFile {
+  type: 'arweave'
+
+  /**
+   * File index.
+   * @type {number}
+   */
+  index?: number
+
+  /**
+   * Arweave transaction id holding the file.
+   * @type {string}
+   */
+  transactionId: string
+}
+
+export interface GraphqlQuery {
+  type: 'graphql'
+
+  /**
+   * File index.
+   * @type {number}
+   */
+  index?: number
+
+  /**
+   * GraphQL endpoint URL.
+   * @type {string}
+   */
+  url: string
+
+  /**
+   * Query sent to the endpoint, its response is the file.
+   * @type {string}
+   */
+  query: string
+
+  /**
+   * Headers sent by the provider with the query
+   * @type {{ [key: string]: string }}
+   */
+  headers?: { [key: string]: string }
+}
+
+export interface SmartContractCall {
+  type: 'smartcontract'
+
+  /**
+   * File index.
+   * @type {number}
+   */
+  index?: number
+
+  /**
+   * Chain the contract is deployed on.
+   * @type {number}
+   */
+  chainId: number
+
+  /**
+   * Contract address.
+   * @type {string}
+   */
+  address: string
+
+  /**
+   * ABI of the view function called, its result is the file.
+   * @type {AbiItem}
+   */
+  abi: AbiItem
 }
 
+export type StorageObject =
+  | UrlFile
+  | IpfsFile
+  | ArweaveFile
+  | GraphqlQuery
+  | SmartContractCall
+
 export interface Files {
   nftAddress: string
   datatokenAddress: string
-  files: UrlFile[]
+  files: StorageObject[]
 }
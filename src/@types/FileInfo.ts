@@ -48,3 +48,60 @@ export interface FileInfo {
    */
   valid?: boolean
 }
+
+export interface UrlFileInfo extends FileInfo {
+  type: 'url'
+}
+
+export interface IpfsFileInfo extends FileInfo {
+  type: 'ipfs'
+
+  /**
+   * IPFS content identifier (CID) of the file.
+   * @type {string}
+   */
+  hash?: string
+}
+
+export interface ArweaveFileInfo extends FileInfo {
+  type: 'arweave'
+
+  /**
+   * Arweave transaction id holding the file.
+   * @type {string}
+   */
+  transactionId?: string
+}
+
+export interface GraphqlFileInfo extends FileInfo {
+  type: 'graphql'
+
+  /**
+   * Query sent to the endpoint.
+   * @type {string}
+   */
+  query?: string
+}
+
+export interface SmartContractFileInfo extends FileInfo {
+  type: 'smartcontract'
+
+  /**
+   * Chain the contract is deployed on.
+   * @type {number}
+   */
+  chainId?: number
+
+  /**
+   * Contract address.
+   * @type {string}
+   */
+  address?: string
+}
+
+export type StorageObjectInfo =
+  | UrlFileInfo
+  | IpfsFileInfo
+  | ArweaveFileInfo
+  | GraphqlFileInfo
+  | SmartContractFileInfo
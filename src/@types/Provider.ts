@@ -1,3 +1,5 @@
+import { RankedComputeEnvironment } from './Compute'
+
 export interface ProviderFees {
   providerFeeAddress: string
   providerFeeToken: string
@@ -25,4 +27,10 @@ export interface ProviderComputeInitialize {
 export interface ProviderComputeInitializeResults {
   algorithm?: ProviderComputeInitialize
   datasets?: ProviderComputeInitialize[]
+
+  /**
+   * Environment selected from the requirements passed to initializeCompute.
+   * @type {RankedComputeEnvironment}
+   */
+  computeEnv?: RankedComputeEnvironment
 }
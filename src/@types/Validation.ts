@@ -0,0 +1,13 @@
+export interface ValidationIssue {
+  /**
+   * Path of the invalid field, e.g. `services[0].timeout`.
+   * @type {string}
+   */
+  path: string
+
+  /**
+   * What is wrong with the field.
+   * @type {string}
+   */
+  message: string
+}
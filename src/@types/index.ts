@@ -3,6 +3,7 @@ export * from './Asset'
 export * from './DDO/Service'
 export * from './DDO/Credentials'
 export * from './DDO/Metadata'
+export * from './DDO/ConsumerParameter'
 export * from './File'
 export * from './FileInfo'
 export * from './Compute'
@@ -13,3 +14,5 @@ export * from './Erc20'
 export * from './Erc721'
 export * from './Dispenser'
 export * from './Router'
+export * from './Validation'
+export * from './Consumability'
@@ -1,38 +1,319 @@
-import { LoggerInstance, sleep } from '../utils'
+import {
+  LoggerInstance,
+  createAquariusError,
+  summarizePayload,
+  AquariusHttpError,
+  mapWithConcurrency
+} from '../utils'
 import { Asset, DDO, ValidateMetadata } from '../@types/'
 import fetch from 'cross-fetch'
+import { DdoCache } from './DdoCache'
+import { SearchQueryBuilder } from './SearchQueryBuilder'
+
+export type SearchValue = string | number | boolean
+
+export type SortOrder = 'asc' | 'desc'
+
+export type SearchSortValue = string | number
+
+export interface RangeCondition {
+  gt?: string | number
+  gte?: string | number
+  lt?: string | number
+  lte?: string | number
+  format?: string
+}
+
+export interface QueryClause {
+  match?: {
+    [property: string]: SearchValue | Record<string, SearchValue>
+  }
+  // eslint-disable-next-line camelcase
+  query_string?: {
+    [property: string]: string | number | string[] | number[] | boolean
+  }
+  // eslint-disable-next-line camelcase
+  simple_query_string?: {
+    [property: string]: string | number | string[] | number[] | boolean
+  }
+  // eslint-disable-next-line camelcase
+  match_all?: Record<string, never>
+  // eslint-disable-next-line no-use-before-define
+  bool?: BoolQuery
+  term?: { [property: string]: SearchValue }
+  terms?: { [property: string]: SearchValue[] }
+  range?: { [property: string]: RangeCondition }
+  exists?: { field: string }
+  nested?: { path: string; query: QueryClause }
+}
+
+export interface BoolQuery {
+  must?: QueryClause[]
+  should?: QueryClause[]
+  filter?: QueryClause[]
+  // eslint-disable-next-line camelcase
+  must_not?: QueryClause[]
+  // eslint-disable-next-line camelcase
+  minimum_should_match?: number | string
+}
+
+export interface SearchSort {
+  [jsonPath: string]: string | { order: SortOrder; missing?: '_first' | '_last' }
+}
+
+export interface SearchAggregation {
+  terms?: { field: string; size?: number }
+  range?: {
+    field: string
+    ranges: { key?: string; from?: string | number; to?: string | number }[]
+  }
+  // eslint-disable-next-line camelcase
+  date_histogram?: {
+    field: string
+    // eslint-disable-next-line camelcase
+    calendar_interval: string
+  }
+  min?: { field: string }
+  max?: { field: string }
+  avg?: { field: string }
+  sum?: { field: string }
+  nested?: { path: string }
+  filter?: QueryClause
+  aggs?: { [name: string]: SearchAggregation }
+}
 
 export interface SearchQuery {
   from?: number
   size?: number
-  query: {
-    match?: {
-      [property: string]:
-        | string
-        | number
-        | boolean
-        | Record<string, string | number | boolean>
-    }
-    // eslint-disable-next-line camelcase
-    query_string?: {
-      [property: string]: string | number | string[] | number[] | boolean
-    }
+  query: QueryClause
+  sort?: SearchSort | SearchSort[]
+  // eslint-disable-next-line camelcase
+  search_after?: SearchSortValue[]
+  aggs?: { [name: string]: SearchAggregation }
+}
+
+export interface SearchHit<T> {
+  _index: string
+  _id: string
+  _score: number
+  _source: T
+  /**
+   * Sort values of the hit, pass the ones of the last hit as `search_after`
+   * to get the next page.
+   * @type {SearchSortValue[]}
+   */
+  sort?: SearchSortValue[]
+}
+
+export interface AggregationBucket {
+  key: SearchSortValue
+  // eslint-disable-next-line camelcase
+  key_as_string?: string
+  // eslint-disable-next-line camelcase
+  doc_count: number
+  /**
+   * Results of sub aggregations, by name.
+   * @type {AggregationResult}
+   */
+  // eslint-disable-next-line no-use-before-define
+  [aggregation: string]: AggregationResult | SearchSortValue
+}
+
+export interface AggregationResult {
+  /**
+   * Buckets of terms, range and histogram aggregations.
+   * @type {AggregationBucket[]}
+   */
+  buckets?: AggregationBucket[]
+
+  /**
+   * Value of metric aggregations such as min, max or avg.
+   * @type {number}
+   */
+  value?: number
+
+  // eslint-disable-next-line camelcase
+  doc_count?: number
+  // eslint-disable-next-line camelcase
+  sum_other_doc_count?: number
+  [aggregation: string]: AggregationResult | AggregationBucket[] | number
+}
+
+export interface SearchResult<T = Asset> {
+  took: number
+  // eslint-disable-next-line camelcase
+  timed_out: boolean
+  hits: {
+    total: { value: number; relation: 'eq' | 'gte' }
     // eslint-disable-next-line camelcase
-    simple_query_string?: {
-      [property: string]: string | number | string[] | number[] | boolean
-    }
+    max_score: number
+    hits: SearchHit<T>[]
   }
-  sort?: { [jsonPath: string]: string }
+  aggregations?: { [name: string]: AggregationResult }
+}
+
+export interface SearchIteratorOptions {
+  /**
+   * Number of results requested per call, defaults to the query size or 100.
+   * @type {number}
+   */
+  pageSize?: number
+
+  /**
+   * Stop after this many results.
+   * @type {number}
+   */
+  maxResults?: number
+
+  /**
+   * `from` pages with from/size, limited by the index to the first 10000 results.
+   * `searchAfter` continues after the sort values of the last hit, the query must
+   * be sorted, ideally on a unique field as tie-breaker. Defaults to `from`.
+   * @type {'from' | 'searchAfter'}
+   */
+  pagination?: 'from' | 'searchAfter'
+
+  signal?: AbortSignal
+}
+
+export interface WaitForAquaOptions {
+  /**
+   * Wait for the update made by this transaction when the asset is already indexed.
+   * @type {string}
+   */
+  txid?: string
+
+  /**
+   * Time in ms to wait for in total, defaults to 150000.
+   * @type {number}
+   */
+  timeout?: number
+
+  /**
+   * Time in ms before the second attempt, defaults to 1500.
+   * @type {number}
+   */
+  interval?: number
+
+  /**
+   * Factor the interval grows by after every attempt, defaults to 1.5.
+   * @type {number}
+   */
+  backoffFactor?: number
+
+  /**
+   * Maximum time in ms between two attempts, defaults to 10000.
+   * @type {number}
+   */
+  maxInterval?: number
+
+  /**
+   * Called after every attempt, e.g. to show progress.
+   * @type {Function}
+   */
+  // eslint-disable-next-line no-use-before-define
+  onAttempt?: (attempt: WaitForAquaAttempt) => void
+
+  signal?: AbortSignal
+}
+
+export interface WaitForAquaAttempt {
+  attempt: number
+
+  /**
+   * Time in ms since the first attempt.
+   * @type {number}
+   */
+  elapsed: number
+
+  /**
+   * HTTP status of the attempt, undefined when Aquarius could not be reached.
+   * @type {number}
+   */
+  status?: number
+
+  /**
+   * Why the asset is not available yet.
+   * @type {string}
+   */
+  error?: string
+
+  /**
+   * Time in ms until the next attempt, 0 when this was the last one or when
+   * retrying right away.
+   * @type {number}
+   */
+  nextDelay: number
+}
+
+/**
+ * Why waiting stopped: `indexed` when the asset is available, `purgatory` when
+ * it is in purgatory, `invalid` when Aquarius rejected the DDO, `failed` on
+ * other non-retriable responses and `timeout` when time ran out.
+ */
+export type WaitForAquaStatus = 'indexed' | 'purgatory' | 'invalid' | 'failed' | 'timeout'
+
+export interface WaitForAquaResult {
+  status: WaitForAquaStatus
+
+  /**
+   * The indexed asset, also set when it is in purgatory.
+   * @type {Asset}
+   */
+  asset: Asset
+  attempts: number
+  elapsed: number
+  error?: string
+}
+
+export interface ResolveManyOptions {
+  /**
+   * Maximum number of DIDs per search query, defaults to 100.
+   * @type {number}
+   */
+  batchSize?: number
+
+  /**
+   * Maximum number of concurrent single resolves in the fallback, defaults to 5.
+   * @type {number}
+   */
+  concurrency?: number
+
+  signal?: AbortSignal
+}
+
+export interface ResolvedAsset {
+  /**
+   * The asset, null when it could not be resolved.
+   * @type {Asset}
+   */
+  asset: Asset
+
+  /**
+   * Why the asset could not be resolved, AssetNotFoundError when it is unknown.
+   * @type {Error}
+   */
+  error?: Error
+}
+
+interface IndexCheck {
+  status?: number
+  asset?: Asset
+  stop?: WaitForAquaStatus
+  error?: string
 }
 
 export class Aquarius {
   public aquariusURL
+  public cache: DdoCache
   /**
    * Instantiate Aquarius
    * @param {String} aquariusURL
+   * @param {DdoCache} cache optional cache of resolved assets
    */
-  constructor(aquariusURL: string) {
+  constructor(aquariusURL: string, cache?: DdoCache) {
     this.aquariusURL = aquariusURL
+    this.cache = cache
   }
 
   /** Resolves a DID
@@ -41,66 +322,140 @@ export class Aquarius {
    * @return {Promise<Asset>} Asset
    */
   public async resolve(did: string, signal?: AbortSignal): Promise<Asset> {
-    const path = this.aquariusURL + '/api/aquarius/assets/ddo/' + did
-    try {
-      const response = await fetch(path, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        signal: signal
+    if (this.cache) {
+      return this.cache.resolve(this.aquariusURL, did, () => this.fetchAsset(did, signal))
+    }
+    return this.fetchAsset(did, signal)
+  }
+
+  /**
+   * Resolves many DIDs with search queries. DIDs the search does not return, or all
+   * of them when the search fails, are resolved one by one.
+   * @param {string[]} dids DIDs to resolve
+   * @param {ResolveManyOptions} options batching options
+   * @return {Promise<{ [did: string]: ResolvedAsset }>} result of every DID
+   */
+  public async resolveMany(
+    dids: string[],
+    options: ResolveManyOptions = {}
+  ): Promise<{ [did: string]: ResolvedAsset }> {
+    const { signal } = options
+    const batchSize = options.batchSize || 100
+    const results: { [did: string]: ResolvedAsset } = {}
+    let pending = dids.filter((did, index) => dids.indexOf(did) === index)
+
+    if (this.cache) {
+      const cached = await Promise.all(
+        pending.map((did) => this.cache.get(this.aquariusURL, did))
+      )
+      pending = pending.filter((did, index) => {
+        if (cached[index]) results[did] = { asset: cached[index] }
+        return !cached[index]
       })
+    }
 
-      if (response.ok) {
-        const raw = await response.json()
-        return raw as Asset
-      } else {
-        throw new Error('HTTP request failed with status ' + response.status)
+    for (let i = 0; i < pending.length; i += batchSize) {
+      const batch = pending.slice(i, i + batchSize)
+      try {
+        const query = new SearchQueryBuilder().terms('_id', batch).size(batch.length)
+        const result = await this.querySearch(query.build(), signal)
+        for (const hit of result.hits.hits) {
+          const did = batch.find((d) => d.toLowerCase() === hit._source.id?.toLowerCase())
+          if (!did) continue
+          results[did] = { asset: hit._source }
+          if (this.cache) await this.cache.set(this.aquariusURL, hit._source)
+        }
+      } catch (e) {
+        if (e.name === 'AbortError') throw e
+        LoggerInstance.warn('Batch resolve failed, resolving one by one:', e.message)
       }
-    } catch (e) {
-      LoggerInstance.error(e)
-      throw new Error('HTTP request failed')
     }
+
+    const missing = pending.filter((did) => !results[did])
+    await mapWithConcurrency(missing, options.concurrency || 5, async (did) => {
+      try {
+        results[did] = { asset: await this.resolve(did, signal) }
+      } catch (e) {
+        if (e.name === 'AbortError') throw e
+        results[did] = { asset: null, error: e }
+      }
+    })
+    return results
   }
 
   /**
    * Blocks until Aqua will cache the did (or the update for that did) or timeouts
-   
    * @param {string} did DID of the asset.
    * @param {string} txid used when the did exists and we expect an update with that txid.
-     * @param {AbortSignal} signal abort signal
-   * @return {Promise<DDO>} DDO of the asset.
+   * @param {AbortSignal} signal abort signal
+   * @param {WaitForAquaOptions} options timeout, backoff and progress options
+   * @return {Promise<Asset>} DDO of the asset, null when it was not indexed in time.
    */
   public async waitForAqua(
     did: string,
     txid?: string,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    options: Omit<WaitForAquaOptions, 'txid' | 'signal'> = {}
   ): Promise<Asset> {
-    let tries = 0
-    do {
-      try {
-        const path = this.aquariusURL + '/api/aquarius/assets/ddo/' + did
-        const response = await fetch(path, {
-          method: 'GET',
-          headers: {
-            'Content-Type': 'application/json'
-          },
-          signal: signal
+    const result = await this.waitForIndexing(did, { ...options, txid, signal })
+    if (result.status !== 'indexed') {
+      LoggerInstance.warn(
+        `Asset ${did} is not available (${result.status}): ${result.error}`
+      )
+    }
+    return result.asset
+  }
+
+  /**
+   * Waits until Aquarius indexed an asset, retrying with backoff. Stops early when
+   * the asset is in purgatory or Aquarius rejected it.
+   * @param {string} did DID of the asset.
+   * @param {WaitForAquaOptions} options timeout, backoff and progress options
+   * @return {Promise<WaitForAquaResult>} why waiting stopped, with the asset if indexed
+   */
+  public async waitForIndexing(
+    did: string,
+    options: WaitForAquaOptions = {}
+  ): Promise<WaitForAquaResult> {
+    const { txid, signal, onAttempt } = options
+    const timeout = options.timeout ?? 150000
+    const backoffFactor = options.backoffFactor ?? 1.5
+    const maxInterval = options.maxInterval ?? 10000
+    let interval = options.interval ?? 1500
+    const started = Date.now()
+    let attempts = 0
+    while (true) {
+      attempts++
+      const check = await this.checkIndexed(did, txid, signal)
+      const elapsed = Date.now() - started
+      const timedOut = !check.stop && elapsed >= timeout
+      const nextDelay = check.stop || timedOut ? 0 : Math.min(interval, timeout - elapsed)
+      if (onAttempt) {
+        onAttempt({
+          attempt: attempts,
+          elapsed,
+          status: check.status,
+          error: check.error,
+          nextDelay
         })
-        if (response.ok) {
-          const ddo = await response.json()
-          if (txid) {
-            // check tx
-            if (ddo.event && ddo.event.txid === txid) return ddo as Asset
-          } else return ddo as Asset
+      }
+      if (check.stop === 'indexed' && this.cache) {
+        await this.cache.invalidate(this.aquariusURL, did)
+      }
+      if (check.stop || timedOut) {
+        return {
+          status: check.stop || 'timeout',
+          asset: check.asset || null,
+          attempts,
+          elapsed,
+          error: check.stop
+            ? check.error
+            : `Timed out after ${elapsed} ms, last error: ${check.error}`
         }
-      } catch (e) {
-        // do nothing
       }
-      await sleep(1500)
-      tries++
-    } while (tries < 100)
-    return null
+      await this.delay(nextDelay, signal)
+      interval = Math.min(interval * backoffFactor, maxInterval)
+    }
   }
 
   /**
@@ -123,7 +478,7 @@ export class Aquarius {
         headers: {
           'Content-Type': 'application/octet-stream'
         },
-        signal: signal
+        signal
       })
 
       jsonResponse = await response.json()
@@ -153,58 +508,241 @@ export class Aquarius {
    * @return {Promise<QueryResult>}
    */
   public async getAssetMetadata(did: string, signal?: AbortSignal): Promise<any> {
-    const path = this.aquariusURL + '/api/aquarius/assets/metadata/' + did
+    if (this.cache) {
+      // the metadata of the cached asset, dropped with it on newer metadata events
+      const asset = await this.resolve(did, signal)
+      return asset ? asset.metadata : null
+    }
+    return this.fetchAssetMetadata(did, signal)
+  }
 
-    try {
-      const response = await fetch(path, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        signal: signal
-      })
+  /**
+   * Search over the DDOs using a query.
+   * @param  {SearchQuery} query Query to filter the DDOs.
+   * @param {AbortSignal} signal abort signal
+   * @return {Promise<SearchResult<T>>}
+   */
+  public async querySearch<T = Asset>(
+    query: SearchQuery,
+    signal?: AbortSignal
+  ): Promise<SearchResult<T>> {
+    const path = this.aquariusURL + '/api/aquarius/assets/query'
+    const response = await this.fetchOrFail(path, {
+      method: 'POST',
+      body: JSON.stringify(query),
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      signal
+    })
+    return response.json()
+  }
 
-      if (response.ok) {
-        return response.json()
+  /**
+   * Iterates over every result of a query, requesting the pages as they are consumed.
+   * @example
+   * for await (const asset of aquarius.querySearchAll(query, { maxResults: 500 })) {}
+   * @param {SearchQuery} query Query to filter the DDOs, `from` sets the first result.
+   * @param {SearchIteratorOptions} options pagination options
+   * @return {AsyncGenerator<T>} the `_source` of every hit
+   */
+  public async *querySearchAll<T = Asset>(
+    query: SearchQuery,
+    options: SearchIteratorOptions = {}
+  ): AsyncGenerator<T, void, undefined> {
+    const { signal } = options
+    const pageSize = options.pageSize || query.size || 100
+    const maxResults = options.maxResults ?? Number.MAX_SAFE_INTEGER
+    const searchAfter = options.pagination === 'searchAfter'
+    if (searchAfter && !query.sort) {
+      throw new Error('search_after pagination needs a sorted query')
+    }
+    let from = query.from || 0
+    let after: SearchSortValue[]
+    let returned = 0
+    while (returned < maxResults) {
+      if (signal?.aborted) {
+        const error = new Error('The search was aborted')
+        error.name = 'AbortError'
+        throw error
+      }
+      const size = Math.min(pageSize, maxResults - returned)
+      const page: SearchQuery = { ...query, size }
+      if (searchAfter) {
+        delete page.from
+        if (after) page.search_after = after
       } else {
-        throw new Error(
-          'getAssetMetadata failed: ' + response.status + response.statusText
-        )
+        page.from = from
+      }
+      const result = await this.querySearch<T>(page, signal)
+      const hits = result.hits?.hits || []
+      for (const hit of hits) {
+        yield hit._source
+      }
+      returned += hits.length
+      if (hits.length < size) return
+      from += hits.length
+      after = hits[hits.length - 1].sort
+      if (searchAfter && !after) {
+        throw new Error('Aquarius did not return sort values to continue the search')
       }
-    } catch (error) {
-      LoggerInstance.error('Error getting metadata: ', error)
-      throw new Error('Error getting metadata: ' + error)
     }
   }
 
   /**
-   * Search over the DDOs using a query.
-   * @param  {SearchQuery} query Query to filter the DDOs.
+   * Loads an asset from Aquarius, without the cache
+   * @param {string} did
    * @param {AbortSignal} signal abort signal
-   * @return {Promise<QueryResult>}
+   * @return {Promise<Asset>} Asset
    */
-  public async querySearch(query: SearchQuery, signal?: AbortSignal): Promise<any> {
-    const path = this.aquariusURL + '/api/aquarius/assets/query'
+  private async fetchAsset(did: string, signal?: AbortSignal): Promise<Asset> {
+    const path = this.aquariusURL + '/api/aquarius/assets/ddo/' + did
+    const response = await this.fetchOrFail(path, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      signal
+    })
+    const raw = await response.json()
+    return raw as Asset
+  }
+
+  /**
+   * Loads the metadata of an asset from Aquarius, without the cache
+   * @param {string} did DID of the asset
+   * @param {AbortSignal} signal abort signal
+   * @return {Promise<any>}
+   */
+  private async fetchAssetMetadata(did: string, signal?: AbortSignal): Promise<any> {
+    const path = this.aquariusURL + '/api/aquarius/assets/metadata/' + did
+    const response = await this.fetchOrFail(path, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      signal
+    })
+    return response.json()
+  }
 
+  /**
+   * Checks once whether an asset is indexed and whether waiting is still useful
+   * @param {string} did DID of the asset
+   * @param {string} txid expected transaction of the last event
+   * @param {AbortSignal} signal abort signal
+   * @return {Promise<IndexCheck>}
+   */
+  private async checkIndexed(
+    did: string,
+    txid: string,
+    signal: AbortSignal
+  ): Promise<IndexCheck> {
+    const path = this.aquariusURL + '/api/aquarius/assets/ddo/' + did
+    let response: Response
     try {
-      const response = await fetch(path, {
-        method: 'POST',
-        body: JSON.stringify(query),
+      response = await fetch(path, {
+        method: 'GET',
         headers: {
           'Content-Type': 'application/json'
         },
-        signal: signal
+        signal
       })
+    } catch (e) {
+      if (e.name === 'AbortError') throw e
+      return { error: e.message }
+    }
+    const { status } = response
+    if (response.ok) {
+      const asset: Asset = await response.json()
+      if (asset.purgatory?.state) {
+        return { status, asset, stop: 'purgatory', error: asset.purgatory.reason }
+      }
+      const eventTx: string = asset.event?.tx || asset.event?.txid
+      if (!txid || eventTx?.toLowerCase() === txid.toLowerCase()) {
+        return { status, asset, stop: 'indexed' }
+      }
+      return { status, error: `Transaction ${txid} is not indexed yet` }
+    }
+    if (status === 404) {
+      const ddoState = await this.getDdoState(did, signal)
+      const sameTx = !txid || ddoState?.tx_id?.toLowerCase() === txid.toLowerCase()
+      if (ddoState?.valid === false && sameTx) {
+        return { status, stop: 'invalid', error: ddoState.error }
+      }
+      return { status, error: 'Asset is not indexed yet' }
+    }
+    const error = await createAquariusError(response, path, 'GET')
+    return status >= 500 || status === 429
+      ? { status, error: error.message }
+      : { status, stop: 'failed', error: error.message }
+  }
 
-      if (response.ok) {
-        return response.json()
-      } else {
-        throw new Error('querySearch failed: ' + response.status + response.statusText)
+  /**
+   * Returns the indexing state Aquarius keeps for a DID, null when it has none
+   * @param {string} did DID of the asset
+   * @param {AbortSignal} signal abort signal
+   * @return {Promise<any>} state with `valid`, `error` and `tx_id`
+   */
+  private async getDdoState(did: string, signal: AbortSignal): Promise<any> {
+    try {
+      const response = await fetch(
+        this.aquariusURL + '/api/aquarius/state/ddo?did=' + encodeURIComponent(did),
+        { method: 'GET', signal }
+      )
+      return response.ok ? await response.json() : null
+    } catch (e) {
+      if (e.name === 'AbortError') throw e
+      return null
+    }
+  }
+
+  private delay(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const abort = () => {
+        clearTimeout(timer)
+        const error = new Error('Waiting for Aquarius was aborted')
+        error.name = 'AbortError'
+        reject(error)
       }
-    } catch (error) {
-      LoggerInstance.error('Error querying metadata: ', error)
-      throw new Error('Error querying metadata: ' + error)
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', abort)
+        resolve()
+      }, ms)
+      if (signal?.aborted) abort()
+      else signal?.addEventListener('abort', abort)
+    })
+  }
+
+  /**
+   * Calls Aquarius and turns failures into typed errors
+   * @param {string} path url to call
+   * @param {RequestInit} init fetch options
+   * @return {Promise<Response>} successful response
+   */
+  private async fetchOrFail(path: string, init: RequestInit): Promise<Response> {
+    let response: Response
+    try {
+      response = await fetch(path, init)
+    } catch (e) {
+      if (e.name === 'AbortError') throw e
+      const error = new AquariusHttpError(
+        `Aquarius ${init.method} ${path} failed: ${e.message}`,
+        {
+          endpoint: path,
+          method: init.method,
+          payload: summarizePayload(init.body)
+        }
+      )
+      LoggerInstance.error(error.message)
+      throw error
+    }
+    if (!response.ok) {
+      const error = await createAquariusError(response, path, init.method, init.body)
+      LoggerInstance.error(error.message)
+      throw error
     }
+    return response
   }
 }
 
@@ -0,0 +1,210 @@
+import Web3 from 'web3'
+import { AbiItem } from 'web3-utils'
+import defaultNftAbi from '@oceanprotocol/contracts/artifacts/contracts/templates/ERC721Template.sol/ERC721Template.json'
+import defaultDatatokensAbi from '@oceanprotocol/contracts/artifacts/contracts/templates/ERC20Template.sol/ERC20Template.json'
+import { Asset, AssetDatatoken, AssetNft, DDO } from '../@types'
+import {
+  MetadataEvent,
+  Signer,
+  generateDid,
+  getMetadataEvents,
+  verifyDocumentHash
+} from '../utils'
+import { ProviderClient, ProviderClientOptions } from '../provider/ProviderClient'
+
+const FLAG_COMPRESSED = 1
+const FLAG_ENCRYPTED = 2
+
+/**
+ * Asset rebuilt from chain data. Aquarius only fields, stats and purgatory, are missing.
+ */
+export type ChainAsset = Omit<Asset, 'stats' | 'purgatory'>
+
+export interface ChainResolveOptions {
+  /**
+   * First block searched for metadata events, defaults to 0. Set it to the NFT
+   * creation block on RPCs that limit the range of log queries.
+   * @type {number}
+   */
+  fromBlock?: number
+
+  /**
+   * Account decrypting encrypted or compressed metadata through the provider,
+   * usually the publisher or a metadata updater.
+   * @type {Web3 | Signer}
+   */
+  decrypter?: Web3 | Signer
+
+  /**
+   * Address of the decrypter account.
+   * @type {string}
+   */
+  decrypterAddress?: string
+
+  signal?: AbortSignal
+}
+
+/**
+ * Resolves DDOs from the metadata events of data NFTs, for when Aquarius is down
+ * or behind. Encrypted metadata is decrypted by the provider the NFT names.
+ */
+export class ChainResolver {
+  public web3: Web3
+  private clientOptions: ProviderClientOptions
+  private clients: { [providerUri: string]: ProviderClient } = {}
+
+  /**
+   * Instantiate ChainResolver
+   * @param {Web3} web3 web3 instance of the chain of the NFTs
+   * @param {ProviderClientOptions} clientOptions options of the provider clients
+   */
+  constructor(web3: Web3, clientOptions?: ProviderClientOptions) {
+    this.web3 = web3
+    this.clientOptions = clientOptions
+  }
+
+  /**
+   * Resolves the current DDO of a data NFT
+   * @param {string} nftAddress data NFT address
+   * @param {ChainResolveOptions} options block range and decrypter
+   * @return {Promise<ChainAsset>}
+   */
+  public async resolve(
+    nftAddress: string,
+    options: ChainResolveOptions = {}
+  ): Promise<ChainAsset> {
+    const events = await getMetadataEvents(this.web3, nftAddress, options.fromBlock || 0)
+    if (events.length === 0) {
+      throw new Error(`No metadata events found for NFT ${nftAddress}`)
+    }
+    const latest = events[events.length - 1]
+    const chainId = await this.web3.eth.getChainId()
+    const document = await this.readDocument(latest, chainId, options)
+    const ddo: DDO = JSON.parse(document)
+    const did = generateDid(nftAddress, chainId)
+    if (ddo.id !== did) {
+      throw new Error(`DDO of NFT ${nftAddress} has id ${ddo.id}, expected ${did}`)
+    }
+
+    const created = events.find((event) => event.event === 'MetadataCreated')
+    const [nft, datatokens] = await Promise.all([
+      this.getNft(nftAddress, created),
+      this.getDatatokens(ddo)
+    ])
+    return {
+      ...ddo,
+      nft,
+      datatokens,
+      event: {
+        tx: latest.transactionHash,
+        block: latest.blockNumber,
+        from: latest.updatedBy,
+        contract: nftAddress,
+        datetime: new Date(latest.timestamp * 1000).toISOString()
+      }
+    }
+  }
+
+  /**
+   * Resolves a DDO and checks that it belongs to the DID
+   * @param {string} did DID of the asset
+   * @param {string} nftAddress data NFT of the asset, a DID can not be mapped back to it
+   * @param {ChainResolveOptions} options block range and decrypter
+   * @return {Promise<ChainAsset>}
+   */
+  public async resolveDid(
+    did: string,
+    nftAddress: string,
+    options: ChainResolveOptions = {}
+  ): Promise<ChainAsset> {
+    const chainId = await this.web3.eth.getChainId()
+    if (generateDid(nftAddress, chainId) !== did) {
+      throw new Error(`${did} is not the DID of NFT ${nftAddress} on chain ${chainId}`)
+    }
+    return this.resolve(nftAddress, options)
+  }
+
+  private async readDocument(
+    event: MetadataEvent,
+    chainId: number,
+    options: ChainResolveOptions
+  ): Promise<string> {
+    const flags = parseInt(event.flags, 16) || 0
+    if ((flags & (FLAG_ENCRYPTED | FLAG_COMPRESSED)) === 0) {
+      const document = this.web3.utils.hexToUtf8(event.data)
+      verifyDocumentHash(document, event.metaDataHash)
+      return document
+    }
+    // the provider decrypts and decompresses, and the client checks the hash
+    if (!options.decrypter || !options.decrypterAddress) {
+      throw new Error(
+        `Metadata of NFT ${event.nftAddress} is encrypted, a decrypter is required`
+      )
+    }
+    if (!event.decryptorUrl) {
+      throw new Error(`NFT ${event.nftAddress} does not name a metadata decryptor`)
+    }
+    return this.getClient(event.decryptorUrl).decrypt(
+      options.decrypter,
+      options.decrypterAddress,
+      chainId,
+      {
+        transactionId: event.transactionHash,
+        dataNftAddress: event.nftAddress,
+        documentHash: event.metaDataHash
+      },
+      options.signal
+    )
+  }
+
+  private async getNft(nftAddress: string, created: MetadataEvent): Promise<AssetNft> {
+    const contract = new this.web3.eth.Contract(
+      defaultNftAbi.abi as AbiItem[],
+      nftAddress
+    )
+    // setMetaDataState only emits MetadataState, the contract has the current state
+    const [name, symbol, owner, state, tokenURI] = await Promise.all([
+      contract.methods.name().call(),
+      contract.methods.symbol().call(),
+      contract.methods.ownerOf(1).call(),
+      contract.methods.metaDataState().call(),
+      contract.methods
+        .tokenURI(1)
+        .call()
+        .catch((): string => null)
+    ])
+    return {
+      address: nftAddress,
+      name,
+      symbol,
+      owner,
+      state: Number(state) as AssetNft['state'],
+      // only known when the creation is within the searched blocks
+      created: created ? new Date(created.timestamp * 1000).toISOString() : null,
+      tokenURI
+    }
+  }
+
+  private async getDatatokens(ddo: DDO): Promise<AssetDatatoken[]> {
+    return Promise.all(
+      (ddo.services || []).map(async (service) => {
+        const contract = new this.web3.eth.Contract(
+          defaultDatatokensAbi.abi as AbiItem[],
+          service.datatokenAddress
+        )
+        const [name, symbol] = await Promise.all([
+          contract.methods.name().call(),
+          contract.methods.symbol().call()
+        ])
+        return { address: service.datatokenAddress, name, symbol, serviceId: service.id }
+      })
+    )
+  }
+
+  private getClient(providerUri: string): ProviderClient {
+    if (!this.clients[providerUri]) {
+      this.clients[providerUri] = new ProviderClient(providerUri, this.clientOptions)
+    }
+    return this.clients[providerUri]
+  }
+}
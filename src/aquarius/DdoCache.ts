@@ -0,0 +1,259 @@
+import Web3 from 'web3'
+import { Asset } from '../@types'
+import { LoggerInstance, getMetadataEvents } from '../utils'
+
+export interface DdoCacheEntry {
+  value: any
+
+  /**
+   * Unix time in ms after which the entry is stale.
+   * @type {number}
+   */
+  expires: number
+
+  /**
+   * Unix time in ms of the last check for newer metadata events.
+   * @type {number}
+   */
+  checkedAt: number
+}
+
+/**
+ * Storage of cache entries. Implementations decide how many entries they keep,
+ * e.g. a storage backed by localStorage or a shared store.
+ */
+export interface DdoCacheStorage {
+  get(key: string): Promise<DdoCacheEntry>
+  set(key: string, entry: DdoCacheEntry): Promise<void>
+  delete(key: string): Promise<void>
+  clear(): Promise<void>
+}
+
+/**
+ * In-memory storage, evicts the least recently used entries above `maxEntries`.
+ */
+export class MemoryCacheStorage implements DdoCacheStorage {
+  public maxEntries: number
+  private entries = new Map<string, DdoCacheEntry>()
+
+  /**
+   * Instantiate MemoryCacheStorage
+   * @param {number} maxEntries maximum number of entries, defaults to 500
+   */
+  constructor(maxEntries = 500) {
+    this.maxEntries = maxEntries
+  }
+
+  public get size(): number {
+    return this.entries.size
+  }
+
+  public async get(key: string): Promise<DdoCacheEntry> {
+    const entry = this.entries.get(key)
+    if (entry) {
+      // move to the most recently used position
+      this.entries.delete(key)
+      this.entries.set(key, entry)
+    }
+    return entry
+  }
+
+  public async set(key: string, entry: DdoCacheEntry): Promise<void> {
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value)
+    }
+  }
+
+  public async delete(key: string): Promise<void> {
+    this.entries.delete(key)
+  }
+
+  public async clear(): Promise<void> {
+    this.entries.clear()
+  }
+}
+
+export interface DdoCacheOptions {
+  /**
+   * Where entries are kept, defaults to a MemoryCacheStorage of `maxEntries`.
+   * @type {DdoCacheStorage}
+   */
+  storage?: DdoCacheStorage
+
+  /**
+   * Size of the default in-memory storage, defaults to 500.
+   * @type {number}
+   */
+  maxEntries?: number
+
+  /**
+   * Time in ms entries are used for, defaults to 60000.
+   * @type {number}
+   */
+  ttl?: number
+
+  /**
+   * Used to check for metadata events newer than the cached asset.
+   * @type {Web3}
+   */
+  web3?: Web3
+
+  /**
+   * Chain of web3, defaults to the chain web3 is connected to. Only assets of this
+   * chain are checked for newer metadata events, others expire with their TTL.
+   * @type {number}
+   */
+  chainId?: number
+
+  /**
+   * Minimum time in ms between two event checks of an entry, defaults to 15000.
+   * @type {number}
+   */
+  checkInterval?: number
+}
+
+/**
+ * Cache for Aquarius.resolve. Entries are keyed by Aquarius url and DID, ignoring the
+ * case of the DID, and dropped when their TTL is over or when the chain has a newer
+ * metadata event than the cached asset. Concurrent loads of the same DID share one
+ * request.
+ */
+export class DdoCache {
+  public storage: DdoCacheStorage
+  private options: DdoCacheOptions
+  private chainId: Promise<number>
+  private loads: { [key: string]: Promise<Asset> } = {}
+
+  /**
+   * Instantiate DdoCache
+   * @param {DdoCacheOptions} options cache options
+   */
+  constructor(options: DdoCacheOptions = {}) {
+    this.options = { ttl: 60000, checkInterval: 15000, ...options }
+    this.storage = options.storage || new MemoryCacheStorage(options.maxEntries)
+  }
+
+  /**
+   * Returns the cached asset, or loads and caches it
+   * @param {string} aquariusUrl Aquarius url
+   * @param {string} did DID of the asset
+   * @param {Function} load loads the asset from Aquarius
+   * @return {Promise<Asset>}
+   */
+  public async resolve(
+    aquariusUrl: string,
+    did: string,
+    load: () => Promise<Asset>
+  ): Promise<Asset> {
+    const cached = await this.get(aquariusUrl, did)
+    if (cached) return cached
+    const key = this.getKey(aquariusUrl, did)
+    if (!this.loads[key]) {
+      this.loads[key] = load()
+        .then(async (asset) => {
+          await this.set(aquariusUrl, asset)
+          return asset
+        })
+        .finally(() => {
+          delete this.loads[key]
+        })
+    }
+    return this.loads[key]
+  }
+
+  /**
+   * Returns the cached asset, null when it is not cached or no longer valid
+   * @param {string} aquariusUrl Aquarius url
+   * @param {string} did DID of the asset
+   * @return {Promise<Asset>}
+   */
+  public async get(aquariusUrl: string, did: string): Promise<Asset> {
+    const key = this.getKey(aquariusUrl, did)
+    const entry = await this.storage.get(key)
+    if (!entry) return null
+    if (await this.isFresh(key, entry)) return entry.value
+    await this.invalidate(aquariusUrl, did)
+    return null
+  }
+
+  /**
+   * Caches an asset
+   * @param {string} aquariusUrl Aquarius url
+   * @param {Asset} asset asset resolved from Aquarius
+   * @return {Promise<void>}
+   */
+  public async set(aquariusUrl: string, asset: Asset): Promise<void> {
+    if (!asset) return
+    await this.storage.set(this.getKey(aquariusUrl, asset.id), this.createEntry(asset))
+  }
+
+  /**
+   * Drops the cached asset of a DID
+   * @param {string} aquariusUrl Aquarius url
+   * @param {string} did DID of the asset
+   * @return {Promise<void>}
+   */
+  public async invalidate(aquariusUrl: string, did: string): Promise<void> {
+    await this.storage.delete(this.getKey(aquariusUrl, did))
+  }
+
+  /**
+   * Drops every entry
+   * @return {Promise<void>}
+   */
+  public async clear(): Promise<void> {
+    await this.storage.clear()
+  }
+
+  private createEntry(value: any): DdoCacheEntry {
+    const now = Date.now()
+    return { value, expires: now + this.options.ttl, checkedAt: now }
+  }
+
+  private async isFresh(key: string, entry: DdoCacheEntry): Promise<boolean> {
+    if (entry.expires <= Date.now()) return false
+    const { web3, checkInterval } = this.options
+    const asset: Asset = entry.value
+    if (!web3 || !asset.event?.tx || entry.checkedAt + checkInterval > Date.now()) {
+      return true
+    }
+    try {
+      // events of other chains can not be checked, their entries expire with the TTL
+      if ((await this.getChainId()) !== asset.chainId) return true
+      const events = await getMetadataEvents(web3, asset.nftAddress, asset.event.block)
+      const latest = events[events.length - 1]
+      if (
+        latest &&
+        latest.transactionHash.toLowerCase() !== asset.event.tx.toLowerCase()
+      ) {
+        LoggerInstance.debug(`Cached asset ${asset.id} has a newer metadata event`)
+        return false
+      }
+    } catch (e) {
+      // keep serving the entry, the next call checks again
+      LoggerInstance.warn(`Could not check metadata events of ${asset.id}:`, e.message)
+      return true
+    }
+    await this.storage.set(key, { ...entry, checkedAt: Date.now() })
+    return true
+  }
+
+  private getChainId(): Promise<number> {
+    if (this.options.chainId !== undefined) return Promise.resolve(this.options.chainId)
+    if (!this.chainId) {
+      this.chainId = this.options.web3.eth.getChainId().catch((e) => {
+        this.chainId = null
+        throw e
+      })
+    }
+    return this.chainId
+  }
+
+  private getKey(aquariusUrl: string, did: string): string {
+    // a DID is the sha256 of the NFT address and chain id, so it already implies the
+    // chain, and callers asking for a DID do not know its chain before resolving it
+    return `${aquariusUrl}|${did.toLowerCase()}`
+  }
+}
@@ -0,0 +1,212 @@
+import { Asset } from '../@types'
+import { LoggerInstance } from '../utils'
+import { Aquarius, SearchHit, SearchQuery, SearchSort, SearchSortValue } from './Aquarius'
+import { SearchQueryBuilder } from './SearchQueryBuilder'
+
+export interface FederatedEndpoint {
+  aquariusUrl: string
+
+  /**
+   * Chains searched on this Aquarius, assets of other chains it indexes are ignored.
+   * @type {number[]}
+   */
+  chainIds: number[]
+}
+
+export interface FederatedSearchOptions {
+  /**
+   * Time in ms an endpoint has to answer, defaults to 10000.
+   * @type {number}
+   */
+  timeout?: number
+}
+
+export interface FederatedEndpointResult {
+  aquariusUrl: string
+  chainIds: number[]
+
+  /**
+   * Number of matching assets on the endpoint, undefined when it failed.
+   * @type {number}
+   */
+  total?: number
+
+  /**
+   * Why the endpoint failed, its results are missing from the merged hits.
+   * @type {Error}
+   */
+  error?: Error
+}
+
+export interface FederatedSearchResult<T extends { id: string } = Asset> {
+  /**
+   * Hits of all endpoints, sorted by the query sort and without duplicate DIDs.
+   * @type {SearchHit<T>[]}
+   */
+  hits: SearchHit<T>[]
+
+  /**
+   * Sum of the totals of the endpoints that answered, assets indexed by several
+   * endpoints are counted more than once.
+   * @type {number}
+   */
+  total: number
+
+  endpoints: FederatedEndpointResult[]
+}
+
+interface SortField {
+  field: string
+  order: 'asc' | 'desc'
+}
+
+function getSortFields(sort: SearchSort | SearchSort[]): SortField[] {
+  if (!sort) return []
+  return (Array.isArray(sort) ? sort : [sort]).reduce((fields, item) => {
+    for (const field of Object.keys(item)) {
+      const value = item[field]
+      const order = typeof value === 'string' ? value : value.order
+      fields.push({ field, order: order === 'asc' ? 'asc' : 'desc' })
+    }
+    return fields
+  }, [] as SortField[])
+}
+
+function getPath(source: any, path: string): any {
+  return path
+    .replace(/\.keyword$/, '')
+    .split('.')
+    .reduce(
+      (value, key) => (value === undefined || value === null ? value : value[key]),
+      source
+    )
+}
+
+function isMissing(value: SearchSortValue): boolean {
+  return value === undefined || value === null
+}
+
+function compareValues(a: SearchSortValue, b: SearchSortValue, order: string): number {
+  if (a === b) return 0
+  // missing values go last in both orders, as in Elasticsearch
+  if (isMissing(a)) return 1
+  if (isMissing(b)) return -1
+  const result = a < b ? -1 : 1
+  return order === 'asc' ? result : -result
+}
+
+/**
+ * Searches several Aquarius instances, each for its own chains, and merges the
+ * results as if they came from one index.
+ */
+export class FederatedSearch {
+  public endpoints: FederatedEndpoint[]
+  private options: FederatedSearchOptions
+  private clients: { [aquariusUrl: string]: Aquarius } = {}
+
+  /**
+   * Instantiate FederatedSearch
+   * @param {FederatedEndpoint[]} endpoints Aquarius endpoints and their chains
+   * @param {FederatedSearchOptions} options search options
+   */
+  constructor(endpoints: FederatedEndpoint[], options: FederatedSearchOptions = {}) {
+    if (!endpoints || endpoints.length === 0) {
+      throw new Error('A federated search needs at least one Aquarius endpoint')
+    }
+    this.endpoints = endpoints
+    this.options = { timeout: 10000, ...options }
+    for (const endpoint of endpoints) {
+      this.clients[endpoint.aquariusUrl] = new Aquarius(endpoint.aquariusUrl)
+    }
+  }
+
+  /**
+   * Runs a query on every endpoint and merges the hits. Every endpoint returns the
+   * first `from + size` hits, the merged hits are then paged with `from` and `size`.
+   * Hits are deduplicated by the `id` of their source.
+   * @param {SearchQuery} query query, without chain filter
+   * @param {AbortSignal} signal abort signal
+   * @return {Promise<FederatedSearchResult<T>>}
+   */
+  public async querySearch<T extends { id: string } = Asset>(
+    query: SearchQuery,
+    signal?: AbortSignal
+  ): Promise<FederatedSearchResult<T>> {
+    const from = query.from || 0
+    const size = query.size ?? 10
+    const results = await Promise.all(
+      this.endpoints.map((endpoint) =>
+        this.searchEndpoint<T>(endpoint, { ...query, from: 0, size: from + size }, signal)
+      )
+    )
+    const hits = this.merge(
+      results.map((result) => result.hits),
+      getSortFields(query.sort)
+    )
+    return {
+      hits: hits.slice(from, from + size),
+      total: results.reduce((total, result) => total + (result.endpoint.total || 0), 0),
+      endpoints: results.map((result) => result.endpoint)
+    }
+  }
+
+  private async searchEndpoint<T extends { id: string }>(
+    endpoint: FederatedEndpoint,
+    query: SearchQuery,
+    signal?: AbortSignal
+  ): Promise<{ hits: SearchHit<T>[]; endpoint: FederatedEndpointResult }> {
+    const { aquariusUrl, chainIds } = endpoint
+    const controller = new AbortController()
+    const abort = () => controller.abort()
+    const timer = setTimeout(abort, this.options.timeout)
+    signal?.addEventListener('abort', abort)
+    try {
+      const chainQuery = new SearchQueryBuilder().must(query.query).chainIds(chainIds)
+      const result = await this.clients[aquariusUrl].querySearch<T>(
+        { ...query, query: chainQuery.buildQuery() },
+        controller.signal
+      )
+      return {
+        hits: result.hits?.hits || [],
+        endpoint: { aquariusUrl, chainIds, total: result.hits?.total?.value }
+      }
+    } catch (e) {
+      if (signal?.aborted) throw e
+      const error =
+        e.name === 'AbortError'
+          ? new Error(`Aquarius ${aquariusUrl} did not answer in time`)
+          : e
+      LoggerInstance.warn(`Federated search on ${aquariusUrl} failed:`, error.message)
+      return { hits: [], endpoint: { aquariusUrl, chainIds, error } }
+    } finally {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', abort)
+    }
+  }
+
+  private merge<T extends { id: string }>(
+    lists: SearchHit<T>[][],
+    sort: SortField[]
+  ): SearchHit<T>[] {
+    const hits = lists.reduce((all, list) => all.concat(list), [] as SearchHit<T>[])
+    const compare = (a: SearchHit<T>, b: SearchHit<T>) => {
+      for (let i = 0; i < sort.length; i++) {
+        const { field, order } = sort[i]
+        const valueA = a.sort ? a.sort[i] : getPath(a._source, field)
+        const valueB = b.sort ? b.sort[i] : getPath(b._source, field)
+        const result = compareValues(valueA, valueB, order)
+        if (result !== 0) return result
+      }
+      // without sort, or on ties, best scores first
+      return (b._score || 0) - (a._score || 0)
+    }
+    const seen: { [did: string]: boolean } = {}
+    return hits.sort(compare).filter((hit) => {
+      const did = hit._source?.id
+      if (!did) return true
+      if (seen[did]) return false
+      seen[did] = true
+      return true
+    })
+  }
+}
@@ -0,0 +1,379 @@
+import {
+  BoolQuery,
+  QueryClause,
+  RangeCondition,
+  SearchAggregation,
+  SearchQuery,
+  SearchSort,
+  SearchValue,
+  SortOrder
+} from './Aquarius'
+
+export type QueryOccurrence = 'must' | 'should' | 'filter' | 'must_not'
+
+/**
+ * Paths of the Aquarius index used by the Ocean helpers of SearchQueryBuilder.
+ */
+export const SearchFields = {
+  chainId: 'chainId',
+  nftAddress: 'nftAddress',
+  nftState: 'nft.state',
+  owner: 'nft.owner.keyword',
+  assetType: 'metadata.type',
+  tags: 'metadata.tags.keyword',
+  created: 'metadata.created',
+  updated: 'metadata.updated',
+  serviceType: 'services.type',
+  datatokenAddress: 'datatokens.address',
+  price: 'stats.price.value',
+  purgatory: 'purgatory.state',
+  orders: 'stats.orders'
+}
+
+/**
+ * Builds Aquarius search queries. Every method adds a clause to the root bool
+ * query and returns the builder, `build` returns the SearchQuery to send.
+ * @example
+ * const query = new SearchQueryBuilder()
+ *   .chainIds([1, 137])
+ *   .serviceType('compute')
+ *   .tags(['weather'])
+ *   .sortBy(SearchFields.created, 'desc')
+ *   .page(1, 20)
+ *   .build()
+ */
+export class SearchQueryBuilder {
+  private clauses: Record<QueryOccurrence, QueryClause[]> = {
+    must: [],
+    should: [],
+    filter: [],
+    must_not: []
+  }
+
+  private minimumShouldMatchValue: number | string
+  private sorts: SearchSort[] = []
+  private aggregations: { [name: string]: SearchAggregation } = {}
+  private fromValue: number
+  private sizeValue: number
+
+  /**
+   * Adds a clause the results must match, it counts for the score
+   * @param {QueryClause} clause query clause
+   * @return {SearchQueryBuilder}
+   */
+  public must(clause: QueryClause): SearchQueryBuilder {
+    return this.add('must', clause)
+  }
+
+  /**
+   * Adds a clause the results should match, see `minimumShouldMatch`
+   * @param {QueryClause} clause query clause
+   * @return {SearchQueryBuilder}
+   */
+  public should(clause: QueryClause): SearchQueryBuilder {
+    return this.add('should', clause)
+  }
+
+  /**
+   * Adds a clause the results must match, without scoring
+   * @param {QueryClause} clause query clause
+   * @return {SearchQueryBuilder}
+   */
+  public filter(clause: QueryClause): SearchQueryBuilder {
+    return this.add('filter', clause)
+  }
+
+  /**
+   * Adds a clause the results must not match
+   * @param {QueryClause} clause query clause
+   * @return {SearchQueryBuilder}
+   */
+  public mustNot(clause: QueryClause): SearchQueryBuilder {
+    return this.add('must_not', clause)
+  }
+
+  /**
+   * Sets how many `should` clauses the results must match
+   * @param {number | string} value count or percentage, e.g. '50%'
+   * @return {SearchQueryBuilder}
+   */
+  public minimumShouldMatch(value: number | string): SearchQueryBuilder {
+    this.minimumShouldMatchValue = value
+    return this
+  }
+
+  /**
+   * Matches documents where a field has exactly the value
+   * @param {string} field field path
+   * @param {SearchValue} value value
+   * @param {QueryOccurrence} occurrence where to add the clause, defaults to filter
+   * @return {SearchQueryBuilder}
+   */
+  public term(
+    field: string,
+    value: SearchValue,
+    occurrence: QueryOccurrence = 'filter'
+  ): SearchQueryBuilder {
+    return this.add(occurrence, { term: { [field]: value } })
+  }
+
+  /**
+   * Matches documents where a field has any of the values
+   * @param {string} field field path
+   * @param {SearchValue[]} values values
+   * @param {QueryOccurrence} occurrence where to add the clause, defaults to filter
+   * @return {SearchQueryBuilder}
+   */
+  public terms(
+    field: string,
+    values: SearchValue[],
+    occurrence: QueryOccurrence = 'filter'
+  ): SearchQueryBuilder {
+    return this.add(occurrence, { terms: { [field]: values } })
+  }
+
+  /**
+   * Matches documents where a field is within a range
+   * @param {string} field field path
+   * @param {RangeCondition} range bounds, dates can use date math like 'now-7d'
+   * @param {QueryOccurrence} occurrence where to add the clause, defaults to filter
+   * @return {SearchQueryBuilder}
+   */
+  public range(
+    field: string,
+    range: RangeCondition,
+    occurrence: QueryOccurrence = 'filter'
+  ): SearchQueryBuilder {
+    return this.add(occurrence, { range: { [field]: range } })
+  }
+
+  /**
+   * Matches documents where a field has a value
+   * @param {string} field field path
+   * @param {QueryOccurrence} occurrence where to add the clause, defaults to filter
+   * @return {SearchQueryBuilder}
+   */
+  public exists(
+    field: string,
+    occurrence: QueryOccurrence = 'filter'
+  ): SearchQueryBuilder {
+    return this.add(occurrence, { exists: { field } })
+  }
+
+  /**
+   * Matches documents where one object of a nested field matches the query
+   * @param {string} path path of the nested field
+   * @param {QueryClause | SearchQueryBuilder} query query on the nested objects
+   * @param {QueryOccurrence} occurrence where to add the clause, defaults to filter
+   * @return {SearchQueryBuilder}
+   */
+  public nested(
+    path: string,
+    query: QueryClause | SearchQueryBuilder,
+    occurrence: QueryOccurrence = 'filter'
+  ): SearchQueryBuilder {
+    const clause = query instanceof SearchQueryBuilder ? query.buildQuery() : query
+    return this.add(occurrence, { nested: { path, query: clause } })
+  }
+
+  /**
+   * Full text search
+   * @param {string} text text to search, supports the query string syntax
+   * @param {string[]} fields fields to search, all fields when omitted
+   * @return {SearchQueryBuilder}
+   */
+  public text(text: string, fields?: string[]): SearchQueryBuilder {
+    const options: QueryClause['query_string'] = { query: text }
+    if (fields) options.fields = fields
+    // eslint-disable-next-line camelcase
+    return this.add('must', { query_string: options })
+  }
+
+  /**
+   * Only returns assets of these chains
+   * @param {number[]} chainIds chain ids
+   * @return {SearchQueryBuilder}
+   */
+  public chainIds(chainIds: number[]): SearchQueryBuilder {
+    return this.terms(SearchFields.chainId, chainIds)
+  }
+
+  /**
+   * Only returns assets whose NFT is in one of these states
+   * @param {number[]} states NFT states, 0 is active
+   * @return {SearchQueryBuilder}
+   */
+  public nftState(states: number[]): SearchQueryBuilder {
+    return this.terms(SearchFields.nftState, states)
+  }
+
+  /**
+   * Only returns assets whose NFT is owned by the address
+   * @param {string} owner owner address
+   * @return {SearchQueryBuilder}
+   */
+  public owner(owner: string): SearchQueryBuilder {
+    return this.term(SearchFields.owner, owner)
+  }
+
+  /**
+   * Only returns datasets or algorithms
+   * @param {'dataset' | 'algorithm'} type asset type
+   * @return {SearchQueryBuilder}
+   */
+  public assetType(type: 'dataset' | 'algorithm'): SearchQueryBuilder {
+    return this.term(SearchFields.assetType, type)
+  }
+
+  /**
+   * Only returns assets with a service of this type
+   * @param {'access' | 'compute'} type service type
+   * @return {SearchQueryBuilder}
+   */
+  public serviceType(type: 'access' | 'compute'): SearchQueryBuilder {
+    return this.term(SearchFields.serviceType, type)
+  }
+
+  /**
+   * Only returns assets with any of these tags
+   * @param {string[]} tags tags
+   * @return {SearchQueryBuilder}
+   */
+  public tags(tags: string[]): SearchQueryBuilder {
+    return this.terms(SearchFields.tags, tags)
+  }
+
+  /**
+   * Only returns assets priced through a fixed rate exchange, or free ones
+   * through a dispenser, by the price Aquarius indexes for the datatoken
+   * @param {'fixed' | 'free'} type price type
+   * @return {SearchQueryBuilder}
+   */
+  public priceType(type: 'fixed' | 'free'): SearchQueryBuilder {
+    return type === 'free'
+      ? this.term(SearchFields.price, 0)
+      : this.range(SearchFields.price, { gt: 0 })
+  }
+
+  /**
+   * Only returns assets created within the range
+   * @param {string} from ISO date or date math, unbounded when omitted
+   * @param {string} to ISO date or date math, unbounded when omitted
+   * @return {SearchQueryBuilder}
+   */
+  public createdBetween(from?: string, to?: string): SearchQueryBuilder {
+    const range: RangeCondition = {}
+    if (from) range.gte = from
+    if (to) range.lte = to
+    return this.range(SearchFields.created, range)
+  }
+
+  /**
+   * Leaves out assets in purgatory
+   * @return {SearchQueryBuilder}
+   */
+  public excludePurgatory(): SearchQueryBuilder {
+    return this.term(SearchFields.purgatory, true, 'must_not')
+  }
+
+  /**
+   * Sorts the results, calls add tie-breakers in order
+   * @param {string} field field path
+   * @param {SortOrder} order sort order, defaults to desc
+   * @return {SearchQueryBuilder}
+   */
+  public sortBy(field: string, order: SortOrder = 'desc'): SearchQueryBuilder {
+    this.sorts.push({ [field]: order })
+    return this
+  }
+
+  /**
+   * Adds an aggregation, returned in the `aggregations` of the result
+   * @param {string} name name of the aggregation in the result
+   * @param {SearchAggregation} aggregation aggregation
+   * @return {SearchQueryBuilder}
+   */
+  public aggregate(name: string, aggregation: SearchAggregation): SearchQueryBuilder {
+    this.aggregations[name] = aggregation
+    return this
+  }
+
+  /**
+   * Adds a terms aggregation counting the results per value of a field
+   * @param {string} name name of the aggregation in the result
+   * @param {string} field field path, e.g. SearchFields.tags
+   * @param {number} size maximum number of buckets
+   * @return {SearchQueryBuilder}
+   */
+  public facet(name: string, field: string, size?: number): SearchQueryBuilder {
+    return this.aggregate(name, { terms: size ? { field, size } : { field } })
+  }
+
+  /**
+   * Sets the offset of the first result
+   * @param {number} from offset
+   * @return {SearchQueryBuilder}
+   */
+  public from(from: number): SearchQueryBuilder {
+    this.fromValue = from
+    return this
+  }
+
+  /**
+   * Sets the maximum number of results
+   * @param {number} size number of results
+   * @return {SearchQueryBuilder}
+   */
+  public size(size: number): SearchQueryBuilder {
+    this.sizeValue = size
+    return this
+  }
+
+  /**
+   * Returns one page of results
+   * @param {number} page page number, starting at 1
+   * @param {number} pageSize number of results per page
+   * @return {SearchQueryBuilder}
+   */
+  public page(page: number, pageSize: number): SearchQueryBuilder {
+    return this.from((Math.max(page, 1) - 1) * pageSize).size(pageSize)
+  }
+
+  /**
+   * Returns the query clause only, e.g. to use it in a nested query
+   * @return {QueryClause}
+   */
+  public buildQuery(): QueryClause {
+    const bool: BoolQuery = { ...this.clauses }
+    for (const occurrence of Object.keys(this.clauses) as QueryOccurrence[]) {
+      if (this.clauses[occurrence].length > 0) {
+        bool[occurrence] = [...this.clauses[occurrence]]
+      } else {
+        delete bool[occurrence]
+      }
+    }
+    if (this.minimumShouldMatchValue !== undefined) {
+      bool.minimum_should_match = this.minimumShouldMatchValue
+    }
+    // eslint-disable-next-line camelcase
+    return Object.keys(bool).length > 0 ? { bool } : { match_all: {} }
+  }
+
+  /**
+   * Returns the search query
+   * @return {SearchQuery}
+   */
+  public build(): SearchQuery {
+    const query: SearchQuery = { query: this.buildQuery() }
+    if (this.fromValue !== undefined) query.from = this.fromValue
+    if (this.sizeValue !== undefined) query.size = this.sizeValue
+    if (this.sorts.length > 0) query.sort = [...this.sorts]
+    if (Object.keys(this.aggregations).length > 0) query.aggs = { ...this.aggregations }
+    return query
+  }
+
+  private add(occurrence: QueryOccurrence, clause: QueryClause): SearchQueryBuilder {
+    this.clauses[occurrence].push(clause)
+    return this
+  }
+}
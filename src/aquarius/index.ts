@@ -1 +1,5 @@
 export * from './Aquarius'
+export * from './SearchQueryBuilder'
+export * from './DdoCache'
+export * from './ChainResolver'
+export * from './FederatedSearch'
@@ -0,0 +1,7 @@
+/**
+ * Helpers that need Node.js built-ins such as fs, crypto and http. They are published
+ * as `@oceanprotocol/lib/node` and are not part of the browser builds.
+ */
+export * from './utils/DownloadHelper'
+export * from './provider/ComputeResults'
+export * from './provider/MockProviderServer'
@@ -0,0 +1,137 @@
+import { ComputeEnvironment, RankedComputeEnvironment } from '../@types'
+
+export interface ComputeEnvironmentRequirements {
+  /**
+   * Minimum number of CPUs.
+   * @type {number}
+   */
+  minCpu?: number
+
+  /**
+   * Minimum number of GPUs.
+   * @type {number}
+   */
+  minGpu?: number
+
+  /**
+   * Required GPU type, compared case insensitively.
+   * @type {string}
+   */
+  gpuType?: string
+
+  /**
+   * Minimum RAM in GB.
+   * @type {number}
+   */
+  minRamGB?: number
+
+  /**
+   * Minimum disk space in GB.
+   * @type {number}
+   */
+  minDiskGB?: number
+
+  /**
+   * Maximum price per minute, in provider fee tokens.
+   * @type {number}
+   */
+  maxPricePerMinute?: number
+
+  /**
+   * Maximum estimated cost for the whole duration, in provider fee tokens.
+   * @type {number}
+   */
+  maxCost?: number
+
+  /**
+   * Time in seconds the job needs, environments with a shorter maxJobDuration
+   * are skipped. Defaults to one minute for cost estimates.
+   * @type {number}
+   */
+  duration?: number
+
+  /**
+   * Skip environments already running their maximum number of jobs.
+   * @type {boolean}
+   */
+  freeSlotsOnly?: boolean
+}
+
+/**
+ * Estimates the provider fee of running a job, environments charge per started minute
+ * @param {ComputeEnvironment} environment compute environment
+ * @param {number} duration job duration in seconds
+ * @return {number} cost in provider fee tokens
+ */
+export function estimateComputeCost(
+  environment: ComputeEnvironment,
+  duration: number
+): number {
+  return (environment.priceMin || 0) * Math.ceil(duration / 60)
+}
+
+function matches(
+  environment: ComputeEnvironment,
+  requirements: ComputeEnvironmentRequirements,
+  estimatedCost: number,
+  freeSlots: number
+): boolean {
+  const r = requirements
+  return (
+    (r.minCpu === undefined || environment.cpuNumber >= r.minCpu) &&
+    (r.minGpu === undefined || environment.gpuNumber >= r.minGpu) &&
+    (r.gpuType === undefined ||
+      environment.gpuType?.toLowerCase() === r.gpuType.toLowerCase()) &&
+    (r.minRamGB === undefined || environment.ramGB >= r.minRamGB) &&
+    (r.minDiskGB === undefined || environment.diskGB >= r.minDiskGB) &&
+    (r.maxPricePerMinute === undefined || environment.priceMin <= r.maxPricePerMinute) &&
+    (r.maxCost === undefined || estimatedCost <= r.maxCost) &&
+    (r.duration === undefined ||
+      !environment.maxJobDuration ||
+      environment.maxJobDuration >= r.duration) &&
+    (!r.freeSlotsOnly || freeSlots > 0)
+  )
+}
+
+/**
+ * Returns the environments matching the requirements, best first: cheapest,
+ * then the ones with the most free slots, then the smallest ones.
+ * @param {ComputeEnvironment[]} environments environments of a provider
+ * @param {ComputeEnvironmentRequirements} requirements job requirements
+ * @return {RankedComputeEnvironment[]}
+ */
+export function rankComputeEnvironments(
+  environments: ComputeEnvironment[],
+  requirements: ComputeEnvironmentRequirements = {}
+): RankedComputeEnvironment[] {
+  const duration = requirements.duration ?? 60
+  return environments
+    .map((environment) => ({
+      environment,
+      estimatedCost: estimateComputeCost(environment, duration),
+      freeSlots: Math.max((environment.maxJobs || 0) - (environment.currentJobs || 0), 0)
+    }))
+    .filter((ranked) =>
+      matches(ranked.environment, requirements, ranked.estimatedCost, ranked.freeSlots)
+    )
+    .sort(
+      (a, b) =>
+        a.estimatedCost - b.estimatedCost ||
+        b.freeSlots - a.freeSlots ||
+        a.environment.cpuNumber - b.environment.cpuNumber ||
+        a.environment.ramGB - b.environment.ramGB
+    )
+}
+
+/**
+ * Returns the best environment matching the requirements
+ * @param {ComputeEnvironment[]} environments environments of a provider
+ * @param {ComputeEnvironmentRequirements} requirements job requirements
+ * @return {RankedComputeEnvironment} null when no environment matches
+ */
+export function selectComputeEnvironment(
+  environments: ComputeEnvironment[],
+  requirements: ComputeEnvironmentRequirements = {}
+): RankedComputeEnvironment {
+  return rankComputeEnvironments(environments, requirements)[0] || null
+}
@@ -0,0 +1,268 @@
+import { EventEmitter } from 'events'
+import { ComputeJob, ComputeJobStatus } from '../@types'
+import { ProviderHttpError, ProviderUnavailableError } from '../utils/Errors'
+import { ProviderClient } from './ProviderClient'
+
+export interface ComputeJobWatcherOptions {
+  /**
+   * DID of the dataset the job runs on.
+   * @type {string}
+   */
+  did?: string
+
+  /**
+   * First delay in ms between two status polls, defaults to 5000.
+   * @type {number}
+   */
+  interval?: number
+
+  /**
+   * Upper bound in ms for the delay between two status polls, defaults to 60000.
+   * @type {number}
+   */
+  maxInterval?: number
+
+  /**
+   * Factor the delay grows by after each poll without a status change, defaults to 1.5.
+   * @type {number}
+   */
+  backoffFactor?: number
+
+  /**
+   * Time in ms after which waiting is given up, no limit by default.
+   * @type {number}
+   */
+  timeout?: number
+
+  signal?: AbortSignal
+}
+
+export interface ComputeJobTransition {
+  from: ComputeJobStatus
+  to: ComputeJobStatus
+  job: ComputeJob
+}
+
+const FAILED_STATUSES = [
+  ComputeJobStatus.DataProvisioningFailed,
+  ComputeJobStatus.AlgorithmProvisioningFailed
+]
+
+/**
+ * Returns true when a job with this status will not change anymore
+ * @param {ComputeJobStatus | number} status job status
+ * @return {boolean}
+ */
+export function isComputeJobFinal(status: ComputeJobStatus | number): boolean {
+  return status === ComputeJobStatus.Finished || FAILED_STATUSES.includes(status)
+}
+
+/**
+ * Returns true when a job with this status failed
+ * @param {ComputeJobStatus | number} status job status
+ * @return {boolean}
+ */
+export function isComputeJobFailed(status: ComputeJobStatus | number): boolean {
+  return FAILED_STATUSES.includes(status)
+}
+
+function abortError(message: string): Error {
+  const error = new Error(message)
+  error.name = 'AbortError'
+  return error
+}
+
+// an overloaded or restarting provider recovers, polling goes on until the deadline
+function isTransientError(error: Error): boolean {
+  if (error instanceof ProviderUnavailableError) return true
+  return (
+    error instanceof ProviderHttpError && (error.status >= 500 || error.status === 429)
+  )
+}
+
+/**
+ * Polls the status of a compute job until it finishes.
+ * Events:
+ * - `update` (job: ComputeJob) on every successful poll
+ * - `transition` (transition: ComputeJobTransition) when the status changed
+ * - `finished` / `failed` (job: ComputeJob) once the job reached a final status
+ * - `pollError` (error: ProviderHttpError) when a poll failed with a network error, a
+ *   5xx or a 429 status and will be retried
+ */
+export class ComputeJobWatcher extends EventEmitter {
+  public client: ProviderClient
+  public consumerAddress: string
+  public jobId: string
+  public job: ComputeJob
+  private options: ComputeJobWatcherOptions
+  private running: Promise<ComputeJob>
+  private stopped = false
+  private cancelWait: () => void
+  private cancelRequest: () => void
+
+  /**
+   * Instantiate ComputeJobWatcher
+   * @param {ProviderClient} client client of the provider running the job
+   * @param {string} consumerAddress address that started the job
+   * @param {string} jobId id of the job
+   * @param {ComputeJobWatcherOptions} options polling options
+   */
+  constructor(
+    client: ProviderClient,
+    consumerAddress: string,
+    jobId: string,
+    options: ComputeJobWatcherOptions = {}
+  ) {
+    super()
+    this.client = client
+    this.consumerAddress = consumerAddress
+    this.jobId = jobId
+    this.options = {
+      interval: 5000,
+      maxInterval: 60000,
+      backoffFactor: 1.5,
+      ...options
+    }
+  }
+
+  /**
+   * Starts polling, calling it again returns the same promise
+   * @return {Promise<ComputeJob>} the job once it reached a final status
+   */
+  public start(): Promise<ComputeJob> {
+    if (!this.running) this.running = this.poll()
+    return this.running
+  }
+
+  /**
+   * Stops polling, the promise returned by `start` is rejected with an AbortError
+   */
+  public stop() {
+    this.stopped = true
+    if (this.cancelWait) this.cancelWait()
+    if (this.cancelRequest) this.cancelRequest()
+  }
+
+  private async poll(): Promise<ComputeJob> {
+    const deadline = this.options.timeout ? Date.now() + this.options.timeout : Infinity
+    let delay = this.options.interval
+    for (;;) {
+      this.throwIfStopped()
+      let job: ComputeJob
+      try {
+        job = await this.fetchJob(deadline)
+      } catch (e) {
+        if (!isTransientError(e)) throw e
+        this.emit('pollError', e)
+      }
+
+      if (job) {
+        const previous = this.job
+        this.job = job
+        this.emit('update', job)
+        if (!previous || previous.status !== job.status) {
+          this.emit('transition', { from: previous?.status, to: job.status, job })
+          delay = this.options.interval
+        }
+        if (isComputeJobFinal(job.status)) {
+          this.emit(isComputeJobFailed(job.status) ? 'failed' : 'finished', job)
+          return job
+        }
+      }
+
+      const remaining = deadline - Date.now()
+      if (remaining <= 0) throw this.timeoutError()
+      await this.wait(Math.min(delay, remaining))
+      delay = Math.min(delay * this.options.backoffFactor, this.options.maxInterval)
+    }
+  }
+
+  /**
+   * Reads the job status. The request is aborted at the deadline, on `stop` or
+   * when the signal aborts, even if the provider never answers.
+   */
+  private async fetchJob(deadline: number): Promise<ComputeJob> {
+    const controller = new AbortController()
+    let timedOut = false
+    let timer: ReturnType<typeof setTimeout>
+    const aborted = new Promise<never>((resolve, reject) => {
+      const abort = () => {
+        controller.abort()
+        reject(timedOut ? this.timeoutError() : this.abortError())
+      }
+      this.cancelRequest = abort
+      this.options.signal?.addEventListener('abort', abort)
+      if (deadline !== Infinity) {
+        timer = setTimeout(() => {
+          timedOut = true
+          abort()
+        }, Math.max(deadline - Date.now(), 0))
+      }
+    })
+    try {
+      const jobs = await Promise.race([
+        this.client.computeStatus(
+          this.consumerAddress,
+          this.jobId,
+          this.options.did,
+          controller.signal
+        ),
+        aborted
+      ])
+      return Array.isArray(jobs) ? jobs.find((j) => j.jobId === this.jobId) : jobs
+    } finally {
+      clearTimeout(timer)
+      this.options.signal?.removeEventListener('abort', this.cancelRequest)
+      this.cancelRequest = null
+    }
+  }
+
+  private timeoutError(): Error {
+    return new Error(
+      `Compute job ${this.jobId} did not finish within ${this.options.timeout} ms`
+    )
+  }
+
+  private abortError(): Error {
+    return abortError(
+      this.stopped
+        ? `Watching compute job ${this.jobId} was stopped`
+        : `Watching compute job ${this.jobId} was aborted`
+    )
+  }
+
+  private throwIfStopped() {
+    if (this.stopped || this.options.signal?.aborted) throw this.abortError()
+  }
+
+  private wait(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const done = () => {
+        clearTimeout(timer)
+        this.options.signal?.removeEventListener('abort', done)
+        this.cancelWait = null
+        resolve()
+      }
+      const timer = setTimeout(done, ms)
+      this.cancelWait = done
+      this.options.signal?.addEventListener('abort', done)
+    })
+  }
+}
+
+/**
+ * Waits until a compute job reached a final status
+ * @param {ProviderClient} client client of the provider running the job
+ * @param {string} consumerAddress address that started the job
+ * @param {string} jobId id of the job
+ * @param {ComputeJobWatcherOptions} options polling options
+ * @return {Promise<ComputeJob>} the final job, including its results
+ */
+export async function waitForComputeJob(
+  client: ProviderClient,
+  consumerAddress: string,
+  jobId: string,
+  options?: ComputeJobWatcherOptions
+): Promise<ComputeJob> {
+  return new ComputeJobWatcher(client, consumerAddress, jobId, options).start()
+}
@@ -0,0 +1,95 @@
+import fs from 'fs'
+import path from 'path'
+import Web3 from 'web3'
+import { ComputeJob, ComputeResult, ComputeResultType } from '../@types'
+import { Signer } from '../utils'
+import { downloadFileStream, DownloadProgress } from '../utils/DownloadHelper'
+import { ProviderClient } from './ProviderClient'
+import { isComputeJobFinal } from './ComputeJobWatcher'
+
+export interface ComputeResultsDownloadOptions {
+  /**
+   * Only download results of these types, all results by default.
+   * @type {ComputeResultType[]}
+   */
+  types?: ComputeResultType[]
+
+  /**
+   * Called while a result is downloaded.
+   */
+  onProgress?: (result: ComputeResult, progress: DownloadProgress) => void
+
+  signal?: AbortSignal
+}
+
+export interface ComputeResultManifestEntry {
+  index: number
+  filename: string
+  type: ComputeResultType
+  size: number
+  path: string
+}
+
+/**
+ * Downloads the results of a finished compute job into a directory.
+ * Every result url is signed separately by the consumer.
+ * @param {ProviderClient} client client of the provider that ran the job
+ * @param {Web3 | Signer} web3 web3 instance or Signer used to sign the requests
+ * @param {string} consumerAddress address that started the job
+ * @param {ComputeJob} job finished compute job
+ * @param {string} directory directory the results are written to, created if missing
+ * @param {ComputeResultsDownloadOptions} options download options
+ * @return {Promise<ComputeResultManifestEntry[]>} manifest of the downloaded results
+ */
+export async function downloadComputeResults(
+  client: ProviderClient,
+  web3: Web3 | Signer,
+  consumerAddress: string,
+  job: ComputeJob,
+  directory: string,
+  options: ComputeResultsDownloadOptions = {}
+): Promise<ComputeResultManifestEntry[]> {
+  if (!isComputeJobFinal(job.status)) {
+    throw new Error(`Compute job ${job.jobId} is not finished (status ${job.status})`)
+  }
+  // eslint-disable-next-line security/detect-non-literal-fs-filename
+  fs.mkdirSync(directory, { recursive: true })
+
+  const manifest: ComputeResultManifestEntry[] = []
+  const usedNames: string[] = []
+  const results = (job.results || []).map((result, position) => ({
+    ...result,
+    index: result.index ?? position
+  }))
+  for (const result of results) {
+    if (options.types && !options.types.includes(result.type)) continue
+
+    // never trust the reported name with a path, and keep names unique, also on
+    // case-insensitive file systems
+    const basename = path.basename(result.filename || `result${result.index}`)
+    let filename = basename
+    for (let n = 1; usedNames.includes(filename.toLowerCase()); n++) {
+      filename = `${n}-${basename}`
+    }
+    usedNames.push(filename.toLowerCase())
+
+    // a signed url is only accepted once, every retry or resume signs a new one
+    const getUrl = () =>
+      client.getComputeResultUrl(web3, consumerAddress, job.jobId, result.index)
+    const download = await downloadFileStream(getUrl, path.join(directory, filename), {
+      index: result.index,
+      headers: client.getAuthHeaders(consumerAddress),
+      signal: options.signal,
+      onProgress:
+        options.onProgress && ((progress) => options.onProgress(result, progress))
+    })
+    manifest.push({
+      index: result.index,
+      filename,
+      type: result.type,
+      size: download.size,
+      path: download.path
+    })
+  }
+  return manifest
+}
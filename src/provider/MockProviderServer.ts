@@ -0,0 +1,708 @@
+import http from 'http'
+import { AddressInfo, Socket } from 'net'
+import Web3 from 'web3'
+import {
+  ComputeEnvironment,
+  ComputeJob,
+  ComputeJobStatus,
+  ComputeResult,
+  ProviderFees,
+  StorageObjectInfo
+} from '../@types'
+import { getProviderFeesMessage } from '../utils'
+import { ProviderEndpoints } from './ProviderClient'
+
+/**
+ * Private key the mock provider signs provider fees with, do not use it on a real network.
+ */
+export const MOCK_PROVIDER_PRIVATE_KEY =
+  '0x4c0883a69102937d6231471b5dbb6204fe5129617082792ae468d01a3f362318'
+
+const SERVICE_ENDPOINTS: { [serviceName: string]: [string, string] } = {
+  computeDelete: ['DELETE', '/api/services/compute'],
+  computeEnvironments: ['GET', '/api/services/computeEnvironments'],
+  computeResult: ['GET', '/api/services/computeResult'],
+  computeStart: ['POST', '/api/services/compute'],
+  computeStatus: ['GET', '/api/services/compute'],
+  computeStop: ['PUT', '/api/services/compute'],
+  create_auth_token: ['GET', '/api/services/createAuthToken'],
+  decrypt: ['POST', '/api/services/decrypt'],
+  delete_auth_token: ['DELETE', '/api/services/deleteAuthToken'],
+  download: ['GET', '/api/services/download'],
+  encrypt: ['POST', '/api/services/encrypt'],
+  fileinfo: ['POST', '/api/services/fileinfo'],
+  initialize: ['GET', '/api/services/initialize'],
+  initializeCompute: ['POST', '/api/services/initializeCompute'],
+  nonce: ['GET', '/api/services/nonce']
+}
+
+const JOB_STATUS_TEXT: { [status: number]: string } = {
+  [ComputeJobStatus.WarmingUp]: 'Warming up',
+  [ComputeJobStatus.Started]: 'Started',
+  [ComputeJobStatus.ConfiguringVolumes]: 'Configuring volumes',
+  [ComputeJobStatus.ProvisioningSuccess]: 'Provisioning success',
+  [ComputeJobStatus.DataProvisioningFailed]: 'Data provisioning failed',
+  [ComputeJobStatus.AlgorithmProvisioningFailed]: 'Algorithm provisioning failed',
+  [ComputeJobStatus.RunningAlgorithm]: 'Running algorithm',
+  [ComputeJobStatus.FilteringResults]: 'Filtering results',
+  [ComputeJobStatus.PublishingResults]: 'Publishing results',
+  [ComputeJobStatus.Finished]: 'Job finished'
+}
+
+const JOB_PROGRESSION = [
+  ComputeJobStatus.WarmingUp,
+  ComputeJobStatus.Started,
+  ComputeJobStatus.ConfiguringVolumes,
+  ComputeJobStatus.ProvisioningSuccess,
+  ComputeJobStatus.RunningAlgorithm,
+  ComputeJobStatus.FilteringResults,
+  ComputeJobStatus.PublishingResults,
+  ComputeJobStatus.Finished
+]
+
+export interface MockProviderServerOptions {
+  /**
+   * Port to listen on, a random free port by default.
+   * @type {number}
+   */
+  port?: number
+
+  /**
+   * Key used to sign provider fees, the provider address is derived from it.
+   * @type {string}
+   */
+  privateKey?: string
+
+  /**
+   * Chain id reported by the endpoint discovery, defaults to 8996.
+   * @type {number}
+   */
+  chainId?: number
+
+  /**
+   * Version reported by the endpoint discovery.
+   * @type {string}
+   */
+  version?: string
+
+  /**
+   * Token provider fees are paid in, the zero address by default.
+   * @type {string}
+   */
+  feeToken?: string
+
+  /**
+   * Compute environments served by `computeEnvironments`, one free environment by default.
+   * @type {ComputeEnvironment[]}
+   */
+  environments?: ComputeEnvironment[]
+}
+
+export interface MockProviderRequest {
+  /**
+   * Name of the service the request was routed to, `root` for the endpoint discovery.
+   * @type {string}
+   */
+  service: string
+  method: string
+  path: string
+  query: { [key: string]: string }
+  headers: http.IncomingHttpHeaders
+  /**
+   * Parsed JSON body, or the raw text when it is not JSON.
+   */
+  body: any
+}
+
+export interface MockProviderResponse {
+  /**
+   * HTTP status, defaults to 200.
+   * @type {number}
+   */
+  status?: number
+
+  /**
+   * Response body, objects are sent as JSON.
+   */
+  body?: any
+
+  headers?: { [key: string]: string }
+}
+
+/**
+ * Replaces the default behaviour of a service.
+ */
+export type MockProviderHandler = (
+  request: MockProviderRequest
+) => MockProviderResponse | Promise<MockProviderResponse>
+
+export interface MockProviderFailure {
+  /**
+   * HTTP status sent instead of the normal response, defaults to 503.
+   * @type {number}
+   */
+  status?: number
+
+  /**
+   * Body sent with the status, a provider style `{ error }` object by default.
+   */
+  body?: any
+
+  /**
+   * Drop the connection instead of answering.
+   * @type {boolean}
+   */
+  networkError?: boolean
+
+  /**
+   * Delay in ms before the failure is sent.
+   * @type {number}
+   */
+  delay?: number
+
+  /**
+   * Number of requests that fail, defaults to 1.
+   * @type {number}
+   */
+  times?: number
+}
+
+/**
+ * In-process Provider HTTP server, for unit tests without a Barge provider. Apps
+ * import it from `@oceanprotocol/lib/node`.
+ * It exposes the same endpoint discovery format as Ocean Provider and implements
+ * nonce, encrypt, decrypt, fileinfo, initialize, initializeCompute, download,
+ * computeEnvironments, auth tokens and the compute job services with an in-memory state.
+ * Signatures are not verified and `encrypt` only hex encodes the data, `decrypt`
+ * reverses it.
+ * Every service can be overridden with `respondWith` and made to fail with `failNext`.
+ */
+export class MockProviderServer {
+  public url: string
+  public providerAddress: string
+  public chainId: number
+  public version: string
+  public feeToken: string
+  public environments: ComputeEnvironment[]
+  /**
+   * Every request received, in order.
+   * @type {MockProviderRequest[]}
+   */
+  public requests: MockProviderRequest[] = []
+  /**
+   * Compute jobs started on this provider.
+   * @type {ComputeJob[]}
+   */
+  public jobs: ComputeJob[] = []
+  /**
+   * File details returned by `fileinfo` for a did, keyed by did.
+   */
+  public didFiles: { [did: string]: StorageObjectInfo[] } = {}
+  private port: number
+  private privateKey: string
+  private web3 = new Web3()
+  private server: http.Server
+  private sockets = new Set<Socket>()
+  private handlers: { [service: string]: MockProviderHandler } = {}
+  private failures: { [service: string]: MockProviderFailure[] } = {}
+  private removedServices: string[] = []
+  private nonces: { [address: string]: number } = {}
+  private resultContents: { [key: string]: string } = {}
+  private authTokens: { [token: string]: { address: string; expiration: number } } = {}
+  private jobCount = 0
+
+  /**
+   * Instantiate MockProviderServer
+   * @param {MockProviderServerOptions} options server options
+   */
+  constructor(options: MockProviderServerOptions = {}) {
+    this.port = options.port ?? 0
+    this.privateKey = options.privateKey || MOCK_PROVIDER_PRIVATE_KEY
+    this.providerAddress = this.web3.eth.accounts.privateKeyToAccount(
+      this.privateKey
+    ).address
+    this.chainId = options.chainId ?? 8996
+    this.version = options.version || '1.0.20'
+    this.feeToken = options.feeToken || '0x0000000000000000000000000000000000000000'
+    this.environments = options.environments || [
+      {
+        id: 'mock-free-env',
+        cpuNumber: 1,
+        cpuType: 'mock',
+        gpuNumber: 0,
+        gpuType: '',
+        ramGB: 1,
+        diskGB: 1,
+        priceMin: 0,
+        desc: 'Mock free environment',
+        currentJobs: 0,
+        maxJobs: 10,
+        consumerAddress: this.providerAddress,
+        storageExpiry: 3600,
+        maxJobDuration: 600,
+        lastSeen: Math.floor(Date.now() / 1000)
+      }
+    ]
+  }
+
+  /**
+   * Starts listening on localhost
+   * @return {Promise<string>} url of the server, to be used as provider uri
+   */
+  public async start(): Promise<string> {
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        if (!res.headersSent)
+          this.send(res, { status: 500, body: { error: error.message } })
+      })
+    })
+    this.server.on('connection', (socket) => {
+      this.sockets.add(socket)
+      socket.on('close', () => this.sockets.delete(socket))
+    })
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject)
+      this.server.listen(this.port, '127.0.0.1', () => resolve())
+    })
+    const { port } = this.server.address() as AddressInfo
+    this.url = `http://127.0.0.1:${port}`
+    return this.url
+  }
+
+  /**
+   * Stops the server and drops open connections
+   * @return {Promise<void>}
+   */
+  public async stop(): Promise<void> {
+    if (!this.server) return
+    this.sockets.forEach((socket) => socket.destroy())
+    await new Promise<void>((resolve) => this.server.close(() => resolve()))
+    this.server = null
+  }
+
+  /**
+   * Overrides a service, the handler is called instead of the default behaviour
+   * @param {string} service service name, e.g. `initialize`, or `root` for the discovery
+   * @param {MockProviderHandler | MockProviderResponse} handler handler or fixed response
+   * @return {MockProviderServer} this server, for chaining
+   */
+  public respondWith(
+    service: string,
+    handler: MockProviderHandler | MockProviderResponse
+  ): this {
+    this.handlers[service] = typeof handler === 'function' ? handler : () => handler
+    return this
+  }
+
+  /**
+   * Makes the next requests to a service fail
+   * @param {string} service service name
+   * @param {MockProviderFailure} failure how the requests fail
+   * @return {MockProviderServer} this server, for chaining
+   */
+  public failNext(service: string, failure: MockProviderFailure = {}): this {
+    const times = failure.times ?? 1
+    this.failures[service] = this.failures[service] || []
+    for (let i = 0; i < times; i++) this.failures[service].push(failure)
+    return this
+  }
+
+  /**
+   * Stops advertising a service in the endpoint discovery and answers it with 404
+   * @param {string} service service name
+   * @return {MockProviderServer} this server, for chaining
+   */
+  public removeService(service: string): this {
+    if (!this.removedServices.includes(service)) this.removedServices.push(service)
+    return this
+  }
+
+  /**
+   * Drops overrides, pending failures, removed services and the recorded state
+   */
+  public reset() {
+    this.handlers = {}
+    this.failures = {}
+    this.removedServices = []
+    this.requests = []
+    this.jobs = []
+    this.didFiles = {}
+    this.nonces = {}
+    this.resultContents = {}
+    this.authTokens = {}
+  }
+
+  /**
+   * Moves a compute job to a status, or to the next status of a normal run.
+   * Finished jobs get an output and a log result.
+   * @param {string} jobId id of the job
+   * @param {ComputeJobStatus} status new status, the next one by default
+   * @return {ComputeJob} the updated job
+   */
+  public advanceJob(jobId: string, status?: ComputeJobStatus): ComputeJob {
+    const job = this.jobs.find((j) => j.jobId === jobId)
+    if (!job) throw new Error(`Unknown compute job ${jobId}`)
+    const next =
+      status ??
+      JOB_PROGRESSION[
+        Math.min(JOB_PROGRESSION.indexOf(job.status) + 1, JOB_PROGRESSION.length - 1)
+      ]
+    job.status = next
+    job.statusText = JOB_STATUS_TEXT[next]
+    if (next === ComputeJobStatus.Finished) {
+      job.dateFinished = new Date().toISOString()
+      this.setJobResults(jobId, [
+        { filename: 'output.txt', type: 'output', content: `output of ${jobId}` },
+        { filename: 'algorithm.log', type: 'algorithmLog', content: `log of ${jobId}` }
+      ])
+    }
+    return job
+  }
+
+  /**
+   * Sets the results of a compute job and the content served by `computeResult`
+   * @param {string} jobId id of the job
+   * @param {Array} results results with their content
+   */
+  public setJobResults(
+    jobId: string,
+    results: { filename: string; type: ComputeResult['type']; content: string }[]
+  ) {
+    const job = this.jobs.find((j) => j.jobId === jobId)
+    if (!job) throw new Error(`Unknown compute job ${jobId}`)
+    job.results = results.map((result, index) => {
+      this.resultContents[`${jobId}/${index}`] = result.content
+      return {
+        filename: result.filename,
+        filesize: Buffer.byteLength(result.content),
+        type: result.type,
+        index
+      }
+    })
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const url = new URL(req.url, this.url)
+    const request: MockProviderRequest = {
+      service: this.route(req.method, url.pathname),
+      method: req.method,
+      path: url.pathname,
+      query: {},
+      headers: req.headers,
+      body: await this.readBody(req)
+    }
+    url.searchParams.forEach((value, key) => (request.query[key] = value))
+    this.requests.push(request)
+
+    const failure = this.failures[request.service]?.shift()
+    if (failure) {
+      if (failure.delay)
+        await new Promise((resolve) => setTimeout(resolve, failure.delay))
+      if (failure.networkError) {
+        req.socket.destroy()
+        return
+      }
+      this.send(res, {
+        status: failure.status ?? 503,
+        body: failure.body ?? { error: 'Mock provider failure' }
+      })
+      return
+    }
+
+    const token = req.headers.authtoken as string
+    if (token && !this.isValidAuthToken(token)) {
+      this.send(res, { status: 401, body: { error: 'Invalid auth token' } })
+      return
+    }
+    if (!token && !this.useNonce(request)) {
+      this.send(res, {
+        status: 401,
+        body: { error: 'Invalid signature: nonce must be greater than the last one' }
+      })
+      return
+    }
+
+    const handler = this.handlers[request.service]
+    if (handler) {
+      this.send(res, await handler(request))
+      return
+    }
+    this.send(res, this.defaultResponse(request, req.headers.range))
+  }
+
+  private route(method: string, path: string): string {
+    if (path === '/' || path === '') return 'root'
+    const service = Object.keys(SERVICE_ENDPOINTS).find(
+      (name) =>
+        SERVICE_ENDPOINTS[name][0] === method &&
+        SERVICE_ENDPOINTS[name][1] === path &&
+        !this.removedServices.includes(name)
+    )
+    return service || 'unknown'
+  }
+
+  private async readBody(req: http.IncomingMessage): Promise<any> {
+    const text = await new Promise<string>((resolve, reject) => {
+      const chunks: Buffer[] = []
+      req.on('data', (chunk: Buffer) => chunks.push(chunk))
+      req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')))
+      req.on('error', reject)
+    })
+    if (!text) return undefined
+    try {
+      return JSON.parse(text)
+    } catch {
+      return text
+    }
+  }
+
+  private send(res: http.ServerResponse, response: MockProviderResponse) {
+    const { status = 200, body, headers = {} } = response || {}
+    const isText = typeof body === 'string' || Buffer.isBuffer(body)
+    const payload = body === undefined ? '' : isText ? body : JSON.stringify(body)
+    res.writeHead(status, {
+      'Content-Type': isText ? 'text/plain' : 'application/json',
+      ...headers
+    })
+    res.end(payload)
+  }
+
+  private defaultResponse(
+    request: MockProviderRequest,
+    range?: string
+  ): MockProviderResponse {
+    const { query, body } = request
+    switch (request.service) {
+      case 'root':
+        return { body: this.getEndpoints() }
+      case 'nonce':
+        return { body: { nonce: this.nonces[query.userAddress?.toLowerCase()] ?? 0 } }
+      case 'encrypt':
+        return {
+          body: '0x' + Buffer.from(JSON.stringify(body ?? '')).toString('hex')
+        }
+      case 'decrypt':
+        if (!body?.encryptedDocument) {
+          return {
+            status: 400,
+            body: { error: 'The mock provider only decrypts encryptedDocument' }
+          }
+        }
+        return {
+          body: Buffer.from(body.encryptedDocument.replace(/^0x/, ''), 'hex').toString()
+        }
+      case 'fileinfo':
+        return this.fileInfo(body)
+      case 'initialize':
+        return {
+          body: {
+            datatoken: '0x0000000000000000000000000000000000000000',
+            nonce: String(this.nonces[query.consumerAddress?.toLowerCase()] ?? 0),
+            computeAddress: this.providerAddress,
+            providerFee: this.signProviderFees(query.validUntil)
+          }
+        }
+      case 'initializeCompute':
+        return {
+          body: {
+            algorithm: { providerFee: this.signProviderFees(body?.compute?.validUntil) },
+            datasets: (body?.datasets || []).map(() => ({
+              providerFee: this.signProviderFees(body?.compute?.validUntil)
+            }))
+          }
+        }
+      case 'download':
+        return this.download(
+          `content of ${query.documentId} file ${query.fileIndex}`,
+          `file${query.fileIndex}.txt`,
+          range
+        )
+      case 'computeEnvironments':
+        return { body: this.environments }
+      case 'create_auth_token': {
+        const token = `mock-token-${Object.keys(this.authTokens).length + 1}`
+        this.authTokens[token] = {
+          address: query.address,
+          expiration: Number(query.expiration)
+        }
+        return { body: { token } }
+      }
+      case 'delete_auth_token':
+        if (!this.authTokens[query.token]) {
+          return { status: 400, body: { error: 'Token is not valid' } }
+        }
+        delete this.authTokens[query.token]
+        return { body: { success: 'Token has been deactivated.' } }
+      case 'computeStart':
+        return { body: [this.createJob(body)] }
+      case 'computeStatus':
+        return {
+          body: this.findJobs(query.consumerAddress, query.jobId, query.documentId)
+        }
+      case 'computeStop':
+        return this.updateJobs(body, (job) => {
+          job.status = ComputeJobStatus.Finished
+          job.statusText = 'Job stopped'
+          job.dateFinished = new Date().toISOString()
+        })
+      case 'computeDelete':
+        return this.updateJobs(body, (job) => {
+          this.jobs = this.jobs.filter((j) => j !== job)
+        })
+      case 'computeResult': {
+        const content = this.resultContents[`${query.jobId}/${query.index}`]
+        if (content === undefined) {
+          return { status: 404, body: { error: `No result ${query.index}` } }
+        }
+        const job = this.jobs.find((j) => j.jobId === query.jobId)
+        return this.download(content, job.results[Number(query.index)].filename, range)
+      }
+      default:
+        return { status: 404, body: { error: `Not found: ${request.path}` } }
+    }
+  }
+
+  private isValidAuthToken(token: string): boolean {
+    const entry = this.authTokens[token]
+    return !!entry && entry.expiration * 1000 > Date.now()
+  }
+
+  private getEndpoints(): ProviderEndpoints & { chainIds: number[] } {
+    const serviceEndpoints: { [serviceName: string]: [string, string] } = {}
+    for (const name of Object.keys(SERVICE_ENDPOINTS)) {
+      if (!this.removedServices.includes(name)) {
+        serviceEndpoints[name] = SERVICE_ENDPOINTS[name]
+      }
+    }
+    return {
+      chainIds: [this.chainId],
+      chainId: this.chainId,
+      providerAddress: this.providerAddress,
+      serviceEndpoints,
+      software: 'Provider',
+      version: this.version
+    }
+  }
+
+  private fileInfo(body: any): MockProviderResponse {
+    if (body?.did) {
+      const files = this.didFiles[body.did]
+      if (!files) {
+        return { status: 404, body: { error: `Asset ${body.did} not found` } }
+      }
+      return { body: files }
+    }
+    if (!body?.type) return { status: 400, body: { error: 'Missing file type' } }
+    return {
+      body: [
+        {
+          ...body,
+          index: 0,
+          valid: true,
+          contentType: 'text/plain',
+          contentLength: '1024'
+        }
+      ]
+    }
+  }
+
+  private signProviderFees(validUntil?: string | number): ProviderFees {
+    const fees: ProviderFees = {
+      providerFeeAddress: this.providerAddress,
+      providerFeeToken: this.feeToken,
+      providerFeeAmount: '0',
+      providerData: this.web3.utils.utf8ToHex(JSON.stringify({ mock: true })),
+      validUntil: String(validUntil || 0),
+      v: null,
+      r: null,
+      s: null
+    }
+    const { v, r, s } = this.web3.eth.accounts.sign(
+      getProviderFeesMessage(this.web3, fees),
+      this.privateKey
+    )
+    return { ...fees, v, r, s }
+  }
+
+  private download(
+    content: string,
+    filename: string,
+    range?: string
+  ): MockProviderResponse {
+    const data = Buffer.from(content)
+    const headers = { 'Content-Disposition': `attachment;filename=${filename}` }
+    const start = range && range.match(/^bytes=(\d+)-$/)
+    if (!start) return { body: data, headers }
+    const offset = Number(start[1])
+    if (offset >= data.length) {
+      return { status: 416, headers: { 'Content-Range': `bytes */${data.length}` } }
+    }
+    return {
+      status: 206,
+      body: data.subarray(offset),
+      headers: {
+        ...headers,
+        'Content-Range': `bytes ${offset}-${data.length - 1}/${data.length}`
+      }
+    }
+  }
+
+  private createJob(body: any): ComputeJob {
+    this.jobCount++
+    const job: ComputeJob = {
+      owner: body?.consumerAddress,
+      did: body?.dataset?.documentId,
+      jobId: `mock-job-${this.jobCount}`,
+      dateCreated: new Date().toISOString(),
+      dateFinished: null,
+      status: ComputeJobStatus.WarmingUp,
+      statusText: JOB_STATUS_TEXT[ComputeJobStatus.WarmingUp],
+      results: [],
+      inputDID: [
+        body?.dataset?.documentId,
+        ...(body?.additionalDatasets || []).map((dataset: any) => dataset.documentId)
+      ],
+      algoDID: body?.algorithm?.documentId,
+      agreementId: body?.dataset?.transferTxId,
+      expireTimestamp: Math.floor(Date.now() / 1000) + 3600
+    }
+    this.jobs.push(job)
+    return job
+  }
+
+  private findJobs(owner: string, jobId?: string, did?: string): ComputeJob[] {
+    return this.jobs.filter(
+      (job) =>
+        job.owner?.toLowerCase() === owner?.toLowerCase() &&
+        (!jobId || job.jobId === jobId) &&
+        (!did || job.did?.replace(/^did:op:/, '') === did.replace(/^did:op:/, ''))
+    )
+  }
+
+  private updateJobs(body: any, update: (job: ComputeJob) => void): MockProviderResponse {
+    const jobs = this.findJobs(body?.consumerAddress, body?.jobId)
+    if (jobs.length === 0) {
+      return { status: 404, body: { error: `No compute job ${body?.jobId}` } }
+    }
+    jobs.forEach(update)
+    return { body: jobs }
+  }
+
+  /**
+   * Stores the nonce of a signed request, like Ocean Provider it must be greater
+   * than the last nonce of the account
+   */
+  private useNonce(request: MockProviderRequest): boolean {
+    const nonce = request.query.nonce ?? request.body?.nonce
+    const address =
+      request.query.consumerAddress ??
+      request.query.address ??
+      request.body?.consumerAddress ??
+      request.body?.decrypterAddress
+    if (!address || nonce === undefined) return true
+    const key = address.toLowerCase()
+    if (Number(nonce) <= (this.nonces[key] ?? 0)) return false
+    this.nonces[key] = Number(nonce)
+    return true
+  }
+}
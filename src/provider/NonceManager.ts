@@ -0,0 +1,79 @@
+/**
+ * Returns the last nonce the provider accepted from an account.
+ */
+export type NonceFetcher = (address: string, signal?: AbortSignal) => Promise<string>
+
+interface AccountNonce {
+  last: number
+  sync: Promise<void>
+}
+
+/**
+ * Hands out strictly increasing nonces per account, starting after the last nonce
+ * the provider accepted. Concurrent callers never get the same nonce.
+ */
+export class NonceManager {
+  private fetchNonce: NonceFetcher
+  private accounts: { [address: string]: AccountNonce } = {}
+
+  /**
+   * Instantiate NonceManager
+   * @param {NonceFetcher} fetchNonce reads the current nonce of an account from the provider
+   */
+  constructor(fetchNonce: NonceFetcher) {
+    this.fetchNonce = fetchNonce
+  }
+
+  /**
+   * Returns the next nonce of an account, syncing with the provider on first use
+   * @param {string} address account address
+   * @param {AbortSignal} signal abort signal
+   * @return {Promise<number>}
+   */
+  public async next(address: string, signal?: AbortSignal): Promise<number> {
+    const account = this.getAccount(address)
+    if (!account.sync) account.sync = this.sync(account, address, signal)
+    await account.sync
+    account.last += 1
+    return account.last
+  }
+
+  /**
+   * Reads the nonce of an account from the provider again, e.g. after the
+   * provider rejected a nonce. Nonces already handed out are never reused.
+   * @param {string} address account address
+   * @param {AbortSignal} signal abort signal
+   * @return {Promise<void>}
+   */
+  public async resync(address: string, signal?: AbortSignal): Promise<void> {
+    const account = this.getAccount(address)
+    account.sync = this.sync(account, address, signal)
+    await account.sync
+  }
+
+  /**
+   * Forgets the nonces of an account, or of every account
+   * @param {string} address account address
+   */
+  public reset(address?: string) {
+    if (address) delete this.accounts[address.toLowerCase()]
+    else this.accounts = {}
+  }
+
+  private getAccount(address: string): AccountNonce {
+    const key = address.toLowerCase()
+    if (!this.accounts[key]) this.accounts[key] = { last: 0, sync: null }
+    return this.accounts[key]
+  }
+
+  private async sync(account: AccountNonce, address: string, signal?: AbortSignal) {
+    try {
+      const nonce = Math.floor(Number(await this.fetchNonce(address, signal)))
+      if (!Number.isNaN(nonce)) account.last = Math.max(account.last, nonce)
+    } catch (e) {
+      // the next call syncs again instead of reusing the failure
+      account.sync = null
+      throw e
+    }
+  }
+}
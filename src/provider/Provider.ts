@@ -1,17 +1,31 @@
 import Web3 from 'web3'
-import { LoggerInstance, getData } from '../utils'
 import {
-  FileInfo,
+  LoggerInstance,
+  signProviderRequest,
+  Signer,
+  ComputeConsumerParameters
+} from '../utils'
+import {
+  ConsumerParameter,
+  StorageObject,
+  StorageObjectInfo,
+  UrlFileInfo,
   ComputeJob,
   ComputeOutput,
   ComputeAlgorithm,
   ComputeAsset,
   ComputeEnvironment,
+  RankedComputeEnvironment,
   ProviderInitialize,
   ProviderComputeInitializeResults
 } from '../@types/'
-import { noZeroX } from '../utils/ConversionTypeHelper'
-import fetch from 'cross-fetch'
+import {
+  ProviderClient,
+  ProviderClientOptions,
+  DecryptRequest,
+  parseServiceEndpoints
+} from './ProviderClient'
+import { ComputeEnvironmentRequirements } from './ComputeEnvironmentSelector'
 export interface HttpCallback {
   (httpMethod: string, url: string, body: string, header: any): Promise<any>
 }
@@ -25,19 +39,96 @@ export interface UserCustomParameters {
   [key: string]: any
 }
 
+/**
+ * Provider API taking the provider uri on every call. Calls are forwarded to a
+ * cached ProviderClient for that uri, use `getClient` to work with it directly.
+ */
 export class Provider {
+  private clientOptions: ProviderClientOptions
+  private clients: { [providerUri: string]: ProviderClient } = {}
+
+  /**
+   * Instantiate Provider
+   * @param {ProviderClientOptions} clientOptions options used for the created clients,
+   * or the Config of the app
+   */
+  constructor(clientOptions?: ProviderClientOptions) {
+    this.clientOptions = clientOptions
+  }
+
+  /**
+   * Returns the client bound to a provider uri, creating it on first use
+   * @param {string} providerUri provider uri address
+   * @return {ProviderClient}
+   */
+  public getClient(providerUri: string): ProviderClient {
+    if (!this.clients[providerUri]) {
+      this.clients[providerUri] = new ProviderClient(providerUri, this.clientOptions)
+    }
+    return this.clients[providerUri]
+  }
+
+  /** Creates an auth token for an account on a provider, or returns the cached one.
+   * Once created, the token is sent instead of a signature by the calls of this account.
+   * @param {string} providerUri provider uri address
+   * @param {Web3 | Signer} web3 web3 instance or Signer of the account
+   * @param {string} address account address
+   * @param {AbortSignal} signal abort signal
+   * @return {Promise<string>} auth token
+   */
+  public async createAuthToken(
+    providerUri: string,
+    web3: Web3 | Signer,
+    address: string,
+    signal?: AbortSignal
+  ): Promise<string> {
+    return this.getClient(providerUri).createAuthToken(web3, address, signal)
+  }
+
+  /** Revokes the auth token of an account on a provider
+   * @param {string} providerUri provider uri address
+   * @param {Web3 | Signer} web3 web3 instance or Signer of the account
+   * @param {string} address account address
+   * @param {AbortSignal} signal abort signal
+   * @return {Promise<void>}
+   */
+  public async deleteAuthToken(
+    providerUri: string,
+    web3: Web3 | Signer,
+    address: string,
+    signal?: AbortSignal
+  ): Promise<void> {
+    return this.getClient(providerUri).deleteAuthToken(web3, address, signal)
+  }
+
+  /** Revokes the auth tokens of an account on every provider it has one for
+   * @param {Web3 | Signer} web3 web3 instance or Signer of the account
+   * @param {string} address account address
+   * @return {Promise<void>}
+   */
+  public async logout(web3: Web3 | Signer, address: string): Promise<void> {
+    const clients = Object.values(this.clients).filter((client) =>
+      client.getAuthToken(address)
+    )
+    const results = await Promise.allSettled(
+      clients.map((client) => client.deleteAuthToken(web3, address))
+    )
+    results.forEach((result, i) => {
+      if (result.status === 'rejected') {
+        LoggerInstance.warn(
+          `Revoking the auth token on ${clients[i].providerUri} failed:`,
+          result.reason?.message
+        )
+      }
+    })
+  }
+
   /**
    * Returns the provider endpoints
    * @return {Promise<ServiceEndpoint[]>}
    */
   async getEndpoints(providerUri: string): Promise<any> {
-    try {
-      const endpoints = await getData(providerUri)
-      return await endpoints.json()
-    } catch (e) {
-      LoggerInstance.error('Finding the service endpoints failed:', e)
-      return null
-    }
+    return this.getClient(providerUri).getEndpoints()
   }
 
   getEndpointURL(
@@ -54,24 +145,15 @@ export class Provider {
    * @return {Promise<ServiceEndpoint[]>}
    */
   public async getServiceEndpoints(providerEndpoint: string, endpoints: any) {
-    const serviceEndpoints: ServiceEndpoint[] = []
-    for (const i in endpoints.serviceEndpoints) {
-      const endpoint: ServiceEndpoint = {
-        serviceName: i,
-        method: endpoints.serviceEndpoints[i][0],
-        urlPath: providerEndpoint + endpoints.serviceEndpoints[i][1]
-      }
-      serviceEndpoints.push(endpoint)
-    }
-    return serviceEndpoints
+    return parseServiceEndpoints(providerEndpoint, endpoints)
   }
 
   /** Gets current nonce
    * @param {string} providerUri provider uri address
    * @param {string} consumerAddress Publisher address
    * @param {AbortSignal} signal abort signal
-   * @param {string} providerEndpoints Identifier of the asset to be registered in ocean
-   * @param {string} serviceEndpoints document description object (DDO)=
+   * @param {string} providerEndpoints unused, endpoints are cached by the client
+   * @param {string} serviceEndpoints unused, endpoints are cached by the client
    * @return {Promise<string>} urlDetails
    */
   public async getNonce(
@@ -81,46 +163,16 @@ export class Provider {
     providerEndpoints?: any,
     serviceEndpoints?: ServiceEndpoint[]
   ): Promise<string> {
-    if (!providerEndpoints) {
-      providerEndpoints = await this.getEndpoints(providerUri)
-    }
-    if (!serviceEndpoints) {
-      serviceEndpoints = await this.getServiceEndpoints(providerUri, providerEndpoints)
-    }
-    const path = this.getEndpointURL(serviceEndpoints, 'nonce')
-      ? this.getEndpointURL(serviceEndpoints, 'nonce').urlPath
-      : null
-    if (!path) return null
-    try {
-      const response = await fetch(path + `?userAddress=${consumerAddress}`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        signal: signal
-      })
-      return (await response.json()).nonce.toString()
-    } catch (e) {
-      LoggerInstance.error(e)
-      throw new Error('HTTP request failed')
-    }
+    return this.getClient(providerUri).getNonce(consumerAddress, signal)
   }
 
   public async signProviderRequest(
-    web3: Web3,
+    web3: Web3 | Signer,
     accountId: string,
     message: string,
     password?: string
   ): Promise<string> {
-    const consumerMessage = web3.utils.soliditySha3({
-      t: 'bytes',
-      v: web3.utils.utf8ToHex(message)
-    })
-    const isMetaMask =
-      web3 && web3.currentProvider && (web3.currentProvider as any).isMetaMask
-    if (isMetaMask)
-      return await web3.eth.personal.sign(consumerMessage, accountId, password)
-    else return await web3.eth.sign(consumerMessage, accountId)
+    return signProviderRequest(web3, accountId, message, password)
   }
 
   /** Encrypt data using the Provider's own symmetric key
@@ -134,29 +186,34 @@ export class Provider {
     providerUri: string,
     signal?: AbortSignal
   ): Promise<string> {
-    const providerEndpoints = await this.getEndpoints(providerUri)
-    const serviceEndpoints = await this.getServiceEndpoints(
-      providerUri,
-      providerEndpoints
+    return this.getClient(providerUri).encrypt(data, signal)
+  }
+
+  /** Decrypt a document encrypted by the provider, e.g. the DDO passed to setMetadata.
+   * The decrypted document is checked against the metaDataHash stored on chain.
+   * @param {string} providerUri uri of the provider that encrypted the document
+   * @param {Web3 | Signer} web3 web3 instance or Signer of the decrypter
+   * @param {string} decrypterAddress address of the decrypter
+   * @param {number} chainId chain the metadata is stored on
+   * @param {DecryptRequest} request transaction id or encrypted document to decrypt
+   * @param {AbortSignal} signal abort signal
+   * @return {Promise<string>} decrypted document
+   */
+  public async decrypt(
+    providerUri: string,
+    web3: Web3 | Signer,
+    decrypterAddress: string,
+    chainId: number,
+    request: DecryptRequest,
+    signal?: AbortSignal
+  ): Promise<string> {
+    return this.getClient(providerUri).decrypt(
+      web3,
+      decrypterAddress,
+      chainId,
+      request,
+      signal
     )
-    const path = this.getEndpointURL(serviceEndpoints, 'encrypt')
-      ? this.getEndpointURL(serviceEndpoints, 'encrypt').urlPath
-      : null
-    if (!path) return null
-    try {
-      const response = await fetch(path, {
-        method: 'POST',
-        body: JSON.stringify(data),
-        headers: {
-          'Content-Type': 'application/octet-stream'
-        },
-        signal: signal
-      })
-      return await response.text()
-    } catch (e) {
-      LoggerInstance.error(e)
-      throw new Error('HTTP request failed')
-    }
   }
 
   /** Get DDO File details (if possible)
@@ -164,7 +221,7 @@ export class Provider {
    * @param {number} serviceId the id of the service for which to check the files
    * @param {string} providerUri uri of the provider that will be used to check the file
    * @param {AbortSignal} signal abort signal
-   * @return {Promise<FileInfo[]>} urlDetails
+   * @return {Promise<StorageObjectInfo[]>} urlDetails
    */
   public async checkDidFiles(
     did: string,
@@ -172,76 +229,36 @@ export class Provider {
     providerUri: string,
     withChecksum: boolean = false,
     signal?: AbortSignal
-  ): Promise<FileInfo[]> {
-    const providerEndpoints = await this.getEndpoints(providerUri)
-    const serviceEndpoints = await this.getServiceEndpoints(
-      providerUri,
-      providerEndpoints
-    )
-    const args = { did: did, serviceId: serviceId, checksum: withChecksum }
-    const files: FileInfo[] = []
-    const path = this.getEndpointURL(serviceEndpoints, 'fileinfo')
-      ? this.getEndpointURL(serviceEndpoints, 'fileinfo').urlPath
-      : null
-    if (!path) return null
-    try {
-      const response = await fetch(path, {
-        method: 'POST',
-        body: JSON.stringify(args),
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        signal: signal
-      })
-      const results: FileInfo[] = await response.json()
-      for (const result of results) {
-        files.push(result)
-      }
-      return files
-    } catch (e) {
-      return null
-    }
+  ): Promise<StorageObjectInfo[]> {
+    return this.getClient(providerUri).checkDidFiles(did, serviceId, withChecksum, signal)
   }
 
   /** Get URL details (if possible)
    * @param {string} url or did
    * @param {string} providerUri uri of the provider that will be used to check the file
    * @param {AbortSignal} signal abort signal
-   * @return {Promise<FileInfo[]>} urlDetails
+   * @return {Promise<UrlFileInfo[]>} urlDetails
    */
   public async checkFileUrl(
     url: string,
     providerUri: string,
     signal?: AbortSignal
-  ): Promise<FileInfo[]> {
-    const providerEndpoints = await this.getEndpoints(providerUri)
-    const serviceEndpoints = await this.getServiceEndpoints(
-      providerUri,
-      providerEndpoints
-    )
-    const args = { url: url, type: 'url' }
-    const files: FileInfo[] = []
-    const path = this.getEndpointURL(serviceEndpoints, 'fileinfo')
-      ? this.getEndpointURL(serviceEndpoints, 'fileinfo').urlPath
-      : null
-    if (!path) return null
-    try {
-      const response = await fetch(path, {
-        method: 'POST',
-        body: JSON.stringify(args),
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        signal: signal
-      })
-      const results: FileInfo[] = await response.json()
-      for (const result of results) {
-        files.push(result)
-      }
-      return files
-    } catch (e) {
-      return null
-    }
+  ): Promise<UrlFileInfo[]> {
+    return this.getClient(providerUri).checkFileUrl(url, signal)
+  }
+
+  /** Get details of a file of any supported type (if possible)
+   * @param {StorageObject} file file descriptor, validated before it is sent
+   * @param {string} providerUri uri of the provider that will be used to check the file
+   * @param {AbortSignal} signal abort signal
+   * @return {Promise<StorageObjectInfo[]>} file details
+   */
+  public async checkFile(
+    file: StorageObject,
+    providerUri: string,
+    signal?: AbortSignal
+  ): Promise<StorageObjectInfo[]> {
+    return this.getClient(providerUri).checkFile(file, signal)
   }
 
   /** Get Compute Environments
@@ -251,27 +268,7 @@ export class Provider {
     providerUri: string,
     signal?: AbortSignal
   ): Promise<ComputeEnvironment[]> {
-    const providerEndpoints = await this.getEndpoints(providerUri)
-    const serviceEndpoints = await this.getServiceEndpoints(
-      providerUri,
-      providerEndpoints
-    )
-    const path = this.getEndpointURL(serviceEndpoints, 'computeEnvironments')?.urlPath
-    if (!path) return null
-    try {
-      const response = await fetch(path, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        signal: signal
-      })
-      const envs: ComputeEnvironment[] = await response.json()
-      return envs
-    } catch (e) {
-      LoggerInstance.error(e.message)
-      return null
-    }
+    return this.getClient(providerUri).getComputeEnvironments(signal)
   }
 
   /** Initialize a service request.
@@ -282,6 +279,7 @@ export class Provider {
    * @param {UserCustomParameters} userCustomParameters
    * @param {string} providerUri Identifier of the asset to be registered in ocean
    * @param {AbortSignal} signal abort signal
+   * @param {ConsumerParameter[]} consumerParameters userdata is checked against them first
    * @return {Promise<ProviderInitialize>} ProviderInitialize data
    */
   public async initialize(
@@ -293,94 +291,68 @@ export class Provider {
     signal?: AbortSignal,
     userCustomParameters?: UserCustomParameters,
     computeEnv?: string,
-    validUntil?: number
+    validUntil?: number,
+    consumerParameters?: ConsumerParameter[]
   ): Promise<ProviderInitialize> {
-    const providerEndpoints = await this.getEndpoints(providerUri)
-    const serviceEndpoints = await this.getServiceEndpoints(
-      providerUri,
-      providerEndpoints
+    return this.getClient(providerUri).initialize(
+      did,
+      serviceId,
+      fileIndex,
+      consumerAddress,
+      signal,
+      userCustomParameters,
+      computeEnv,
+      validUntil,
+      consumerParameters
     )
-    let initializeUrl = this.getEndpointURL(serviceEndpoints, 'initialize')
-      ? this.getEndpointURL(serviceEndpoints, 'initialize').urlPath
-      : null
+  }
 
-    if (!initializeUrl) return null
-    initializeUrl += `?documentId=${did}`
-    initializeUrl += `&serviceId=${serviceId}`
-    initializeUrl += `&fileIndex=${fileIndex}`
-    initializeUrl += `&consumerAddress=${consumerAddress}`
-    if (userCustomParameters)
-      initializeUrl += '&userdata=' + encodeURI(JSON.stringify(userCustomParameters))
-    if (computeEnv) initializeUrl += '&environment=' + encodeURI(computeEnv)
-    if (validUntil) initializeUrl += '&validUntil=' + validUntil
-    try {
-      const response = await fetch(initializeUrl, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        signal: signal
-      })
-      const results: ProviderInitialize = await response.json()
-      return results
-    } catch (e) {
-      LoggerInstance.error(e)
-      throw new Error('Asset URL not found or not available.')
-    }
+  /** Selects the best compute environment of a provider matching the requirements
+   * @param {string} providerUri provider uri address
+   * @param {ComputeEnvironmentRequirements} requirements job requirements
+   * @param {AbortSignal} signal abort signal
+   * @return {Promise<RankedComputeEnvironment>} null when no environment matches
+   */
+  public async selectComputeEnvironment(
+    providerUri: string,
+    requirements: ComputeEnvironmentRequirements,
+    signal?: AbortSignal
+  ): Promise<RankedComputeEnvironment> {
+    return this.getClient(providerUri).selectComputeEnvironment(requirements, signal)
   }
 
   /** Initialize a compute request.
+   * When requirements are given instead of an environment id, the best matching
+   * environment is selected and returned as `computeEnv`.
    * @param {ComputeAsset} assets
    * @param {ComputeAlgorithmber} algorithm
-   * @param {string} computeEnv
+   * @param {string | ComputeEnvironmentRequirements} computeEnv environment id or requirements
    * @param {number} validUntil
    * @param {string} providerUri Identifier of the asset to be registered in ocean
    * @param {string} accountId
    * @param {AbortSignal} signal abort signal
+   * @param {ComputeConsumerParameters} consumerParameters userdata and algocustomdata are checked against them first
    * @return {Promise<ProviderComputeInitialize>} ProviderComputeInitialize data
    */
   public async initializeCompute(
     assets: ComputeAsset[],
     algorithm: ComputeAlgorithm,
-    computeEnv: string,
+    computeEnv: string | ComputeEnvironmentRequirements,
     validUntil: number,
     providerUri: string,
     accountId: string,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    consumerParameters?: ComputeConsumerParameters
   ): Promise<ProviderComputeInitializeResults> {
-    const providerEndpoints = await this.getEndpoints(providerUri)
-    const serviceEndpoints = await this.getServiceEndpoints(
-      providerUri,
-      providerEndpoints
+    return this.getClient(providerUri).initializeCompute(
+      assets,
+      algorithm,
+      computeEnv,
+      validUntil,
+      accountId,
+      signal,
+      consumerParameters
     )
-    const providerData = {
-      datasets: assets,
-      algorithm: algorithm,
-      compute: {
-        env: computeEnv,
-        validUntil: validUntil
-      },
-      consumerAddress: accountId
-    }
-    const initializeUrl = this.getEndpointURL(serviceEndpoints, 'initializeCompute')
-      ? this.getEndpointURL(serviceEndpoints, 'initializeCompute').urlPath
-      : null
-    if (!initializeUrl) return null
-    try {
-      const response = await fetch(initializeUrl, {
-        method: 'POST',
-        body: JSON.stringify(providerData),
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        signal: signal
-      })
-      const results = await response.json()
-      return results
-    } catch (e) {
-      LoggerInstance.error(e)
-      throw new Error('ComputeJob cannot be initialized')
-    }
   }
 
   /** Gets fully signed URL for download
@@ -389,8 +361,9 @@ export class Provider {
    * @param {string} serviceId
    * @param {number} fileIndex
    * @param {string} providerUri
-   * @param {Web3} web3
+   * @param {Web3 | Signer} web3
    * @param {UserCustomParameters} userCustomParameters
+   * @param {ConsumerParameter[]} consumerParameters userdata is checked against them first
    * @return {Promise<string>}
    */
   public async getDownloadUrl(
@@ -400,31 +373,20 @@ export class Provider {
     fileIndex: number,
     transferTxId: string,
     providerUri: string,
-    web3: Web3,
-    userCustomParameters?: UserCustomParameters
+    web3: Web3 | Signer,
+    userCustomParameters?: UserCustomParameters,
+    consumerParameters?: ConsumerParameter[]
   ): Promise<any> {
-    const providerEndpoints = await this.getEndpoints(providerUri)
-    const serviceEndpoints = await this.getServiceEndpoints(
-      providerUri,
-      providerEndpoints
+    return this.getClient(providerUri).getDownloadUrl(
+      did,
+      accountId,
+      serviceId,
+      fileIndex,
+      transferTxId,
+      web3,
+      userCustomParameters,
+      consumerParameters
     )
-    const downloadUrl = this.getEndpointURL(serviceEndpoints, 'download')
-      ? this.getEndpointURL(serviceEndpoints, 'download').urlPath
-      : null
-    if (!downloadUrl) return null
-    const nonce = Date.now()
-    const signature = await this.signProviderRequest(web3, accountId, did + nonce)
-    let consumeUrl = downloadUrl
-    consumeUrl += `?fileIndex=${fileIndex}`
-    consumeUrl += `&documentId=${did}`
-    consumeUrl += `&transferTxId=${transferTxId}`
-    consumeUrl += `&serviceId=${serviceId}`
-    consumeUrl += `&consumerAddress=${accountId}`
-    consumeUrl += `&nonce=${nonce}`
-    consumeUrl += `&signature=${signature}`
-    if (userCustomParameters)
-      consumeUrl += '&userdata=' + encodeURI(JSON.stringify(userCustomParameters))
-    return consumeUrl
   }
 
   /** Instruct the provider to start a compute job
@@ -433,73 +395,35 @@ export class Provider {
    * @param {string} computeEnv
    * @param {ComputeAlgorithm} algorithm
    * @param {string} providerUri
-   * @param {Web3} web3
+   * @param {Web3 | Signer} web3
    * @param {AbortSignal} signal abort signal
    * @param {ComputeOutput} output
+   * @param {ComputeConsumerParameters} consumerParameters userdata and algocustomdata are checked against them first
    * @return {Promise<ComputeJob | ComputeJob[]>}
    */
   public async computeStart(
     providerUri: string,
-    web3: Web3,
+    web3: Web3 | Signer,
     consumerAddress: string,
     computeEnv: string,
     dataset: ComputeAsset,
     algorithm: ComputeAlgorithm,
     signal?: AbortSignal,
     additionalDatasets?: ComputeAsset[],
-    output?: ComputeOutput
+    output?: ComputeOutput,
+    consumerParameters?: ComputeConsumerParameters
   ): Promise<ComputeJob | ComputeJob[]> {
-    const providerEndpoints = await this.getEndpoints(providerUri)
-    const serviceEndpoints = await this.getServiceEndpoints(
-      providerUri,
-      providerEndpoints
-    )
-    const computeStartUrl = this.getEndpointURL(serviceEndpoints, 'computeStart')
-      ? this.getEndpointURL(serviceEndpoints, 'computeStart').urlPath
-      : null
-
-    const nonce = Date.now()
-    let signatureMessage = consumerAddress
-    signatureMessage += dataset.documentId
-    signatureMessage += nonce
-    const signature = await this.signProviderRequest(
+    return this.getClient(providerUri).computeStart(
       web3,
       consumerAddress,
-      signatureMessage
+      computeEnv,
+      dataset,
+      algorithm,
+      signal,
+      additionalDatasets,
+      output,
+      consumerParameters
     )
-    const payload = Object()
-    payload.consumerAddress = consumerAddress
-    payload.signature = signature
-    payload.nonce = nonce
-    payload.environment = computeEnv
-    payload.dataset = dataset
-    payload.algorithm = algorithm
-    if (payload.additionalDatasets) payload.additionalDatasets = additionalDatasets
-    if (output) payload.output = output
-    if (!computeStartUrl) return null
-    try {
-      const response = await fetch(computeStartUrl, {
-        method: 'POST',
-        body: JSON.stringify(payload),
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        signal: signal
-      })
-
-      if (response?.ok) {
-        const params = await response.json()
-        return params
-      }
-      LoggerInstance.error('Compute start failed: ', response.status, response.statusText)
-      LoggerInstance.error('Payload was:', payload)
-      return null
-    } catch (e) {
-      LoggerInstance.error('Compute start failed:')
-      LoggerInstance.error(e)
-      LoggerInstance.error('Payload was:', payload)
-      return null
-    }
   }
 
   /** Instruct the provider to Stop the execution of a to stop a compute job.
@@ -507,7 +431,7 @@ export class Provider {
    * @param {string} consumerAddress
    * @param {string} jobId
    * @param {string} providerUri
-   * @param {Web3} web3
+   * @param {Web3 | Signer} web3
    * @param {AbortSignal} signal abort signal
    * @return {Promise<ComputeJob | ComputeJob[]>}
    */
@@ -516,65 +440,16 @@ export class Provider {
     consumerAddress: string,
     jobId: string,
     providerUri: string,
-    web3: Web3,
+    web3: Web3 | Signer,
     signal?: AbortSignal
   ): Promise<ComputeJob | ComputeJob[]> {
-    const providerEndpoints = await this.getEndpoints(providerUri)
-    const serviceEndpoints = await this.getServiceEndpoints(
-      providerUri,
-      providerEndpoints
-    )
-    const computeStopUrl = this.getEndpointURL(serviceEndpoints, 'computeStop')
-      ? this.getEndpointURL(serviceEndpoints, 'computeStop').urlPath
-      : null
-
-    const nonce = await this.getNonce(
-      providerUri,
+    return this.getClient(providerUri).computeStop(
+      did,
       consumerAddress,
-      signal,
-      providerEndpoints,
-      serviceEndpoints
-    )
-
-    let signatureMessage = consumerAddress
-    signatureMessage += jobId || ''
-    signatureMessage += (did && `${noZeroX(did)}`) || ''
-    signatureMessage += nonce
-    const signature = await this.signProviderRequest(
+      jobId,
       web3,
-      consumerAddress,
-      signatureMessage
+      signal
     )
-    const payload = Object()
-    payload.signature = signature
-    payload.documentId = noZeroX(did)
-    payload.consumerAddress = consumerAddress
-    if (jobId) payload.jobId = jobId
-
-    if (!computeStopUrl) return null
-    try {
-      const response = await fetch(computeStopUrl, {
-        method: 'PUT',
-        body: JSON.stringify(payload),
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        signal: signal
-      })
-
-      if (response?.ok) {
-        const params = await response.json()
-        return params
-      }
-      LoggerInstance.error('Compute stop failed:', response.status, response.statusText)
-      LoggerInstance.error('Payload was:', payload)
-      return null
-    } catch (e) {
-      LoggerInstance.error('Compute stop failed:')
-      LoggerInstance.error(e)
-      LoggerInstance.error('Payload was:', payload)
-      return null
-    }
   }
 
   /** Get compute status for a specific jobId/documentId/owner.
@@ -592,48 +467,12 @@ export class Provider {
     did?: string,
     signal?: AbortSignal
   ): Promise<ComputeJob | ComputeJob[]> {
-    const providerEndpoints = await this.getEndpoints(providerUri)
-    const serviceEndpoints = await this.getServiceEndpoints(
-      providerUri,
-      providerEndpoints
-    )
-    const computeStatusUrl = this.getEndpointURL(serviceEndpoints, 'computeStatus')
-      ? this.getEndpointURL(serviceEndpoints, 'computeStatus').urlPath
-      : null
-
-    let url = `?consumerAddress=${consumerAddress}`
-    url += (did && `&documentId=${noZeroX(did)}`) || ''
-    url += (jobId && `&jobId=${jobId}`) || ''
-
-    if (!computeStatusUrl) return null
-    try {
-      const response = await fetch(computeStatusUrl + url, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        signal: signal
-      })
-      if (response?.ok) {
-        const params = await response.json()
-        return params
-      }
-      LoggerInstance.error(
-        'Get compute status failed:',
-        response.status,
-        response.statusText
-      )
-      return null
-    } catch (e) {
-      LoggerInstance.error('Get compute status failed')
-      LoggerInstance.error(e)
-      return null
-    }
+    return this.getClient(providerUri).computeStatus(consumerAddress, jobId, did, signal)
   }
 
   /** Get compute result url
    * @param {string} providerUri The URI of the provider we want to query
-   * @param {Web3} web3 Web3 instance
+   * @param {Web3 | Signer} web3 Web3 instance or Signer
    * @param {string} consumerAddress The consumer ethereum address
    * @param {string} jobId The ID of a compute job.
    * @param {number} index Result index
@@ -641,38 +480,17 @@ export class Provider {
    */
   public async getComputeResultUrl(
     providerUri: string,
-    web3: Web3,
+    web3: Web3 | Signer,
     consumerAddress: string,
     jobId: string,
     index: number
   ): Promise<string> {
-    const providerEndpoints = await this.getEndpoints(providerUri)
-    const serviceEndpoints = await this.getServiceEndpoints(
-      providerUri,
-      providerEndpoints
-    )
-    const computeResultUrl = this.getEndpointURL(serviceEndpoints, 'computeResult')
-      ? this.getEndpointURL(serviceEndpoints, 'computeResult').urlPath
-      : null
-
-    const nonce = Date.now()
-    let signatureMessage = consumerAddress
-    signatureMessage += jobId
-    signatureMessage += index.toString()
-    signatureMessage += nonce
-    const signature = await this.signProviderRequest(
+    return this.getClient(providerUri).getComputeResultUrl(
       web3,
       consumerAddress,
-      signatureMessage
+      jobId,
+      index
     )
-    if (!computeResultUrl) return null
-    let resultUrl = computeResultUrl
-    resultUrl += `?consumerAddress=${consumerAddress}`
-    resultUrl += `&jobId=${jobId}`
-    resultUrl += `&index=${index.toString()}`
-    resultUrl += `&nonce=${nonce}`
-    resultUrl += (signature && `&signature=${signature}`) || ''
-    return resultUrl
   }
 
   /** Deletes a compute job.
@@ -680,7 +498,7 @@ export class Provider {
    * @param {string} consumerAddress
    * @param {string} jobId
    * @param {string} providerUri
-   * @param {Web3} web3
+   * @param {Web3 | Signer} web3
    * @param {AbortSignal} signal abort signal
    * @return {Promise<ComputeJob | ComputeJob[]>}
    */
@@ -689,69 +507,16 @@ export class Provider {
     consumerAddress: string,
     jobId: string,
     providerUri: string,
-    web3: Web3,
+    web3: Web3 | Signer,
     signal?: AbortSignal
   ): Promise<ComputeJob | ComputeJob[]> {
-    const providerEndpoints = await this.getEndpoints(providerUri)
-    const serviceEndpoints = await this.getServiceEndpoints(
-      providerUri,
-      providerEndpoints
-    )
-    const computeDeleteUrl = this.getEndpointURL(serviceEndpoints, 'computeDelete')
-      ? this.getEndpointURL(serviceEndpoints, 'computeDelete').urlPath
-      : null
-
-    const nonce = await this.getNonce(
-      providerUri,
+    return this.getClient(providerUri).computeDelete(
+      did,
       consumerAddress,
-      signal,
-      providerEndpoints,
-      serviceEndpoints
-    )
-
-    let signatureMessage = consumerAddress
-    signatureMessage += jobId || ''
-    signatureMessage += (did && `${noZeroX(did)}`) || ''
-    signatureMessage += nonce
-    const signature = await this.signProviderRequest(
+      jobId,
       web3,
-      consumerAddress,
-      signatureMessage
+      signal
     )
-    const payload = Object()
-    payload.documentId = noZeroX(did)
-    payload.consumerAddress = consumerAddress
-    payload.jobId = jobId
-    if (signature) payload.signature = signature
-
-    if (!computeDeleteUrl) return null
-    try {
-      const response = await fetch(computeDeleteUrl, {
-        method: 'DELETE',
-        body: JSON.stringify(payload),
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        signal: signal
-      })
-
-      if (response?.ok) {
-        const params = await response.json()
-        return params
-      }
-      LoggerInstance.error(
-        'Delete compute job failed:',
-        response.status,
-        response.statusText
-      )
-      LoggerInstance.error('Payload was:', payload)
-      return null
-    } catch (e) {
-      LoggerInstance.error('Delete compute job failed:')
-      LoggerInstance.error(e)
-      LoggerInstance.error('Payload was:', payload)
-      return null
-    }
   }
 
   /** Check for a valid provider at URL
@@ -760,23 +525,7 @@ export class Provider {
    * @return {Promise<boolean>} string
    */
   public async isValidProvider(url: string, signal?: AbortSignal): Promise<boolean> {
-    try {
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        signal: signal
-      })
-      if (response?.ok) {
-        const params = await response.json()
-        if (params && params.providerAddress) return true
-      }
-      return false
-    } catch (error) {
-      LoggerInstance.error(`Error validating provider: ${error.message}`)
-      return false
-    }
+    return this.getClient(url).isValidProvider(signal)
   }
 }
 
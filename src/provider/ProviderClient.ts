@@ -0,0 +1,1120 @@
+import Web3 from 'web3'
+import fetch from 'cross-fetch'
+import {
+  LoggerInstance,
+  getData,
+  signProviderRequest,
+  createProviderError,
+  summarizePayload,
+  EndpointNotFoundError,
+  InvalidSignatureError,
+  ProviderUnavailableError,
+  Signer,
+  isSigner,
+  getMetadataEventFromTx,
+  verifyDocumentHash,
+  isFilesObject,
+  validateFiles,
+  validateStorageObject,
+  InvalidFilesError,
+  assertValidConsumerParameters,
+  assertValidComputeConsumerParameters,
+  ComputeConsumerParameters
+} from '../utils'
+import {
+  ConsumerParameter,
+  StorageObject,
+  StorageObjectInfo,
+  UrlFileInfo,
+  ComputeJob,
+  ComputeOutput,
+  ComputeAlgorithm,
+  ComputeAsset,
+  ComputeEnvironment,
+  RankedComputeEnvironment,
+  ProviderInitialize,
+  ProviderComputeInitializeResults
+} from '../@types/'
+import { noZeroX } from '../utils/ConversionTypeHelper'
+import { ServiceEndpoint, UserCustomParameters } from './Provider'
+import { NonceManager } from './NonceManager'
+import {
+  ComputeEnvironmentRequirements,
+  selectComputeEnvironment
+} from './ComputeEnvironmentSelector'
+
+/**
+ * Default time in ms the discovered provider endpoints are kept before
+ * they are fetched again.
+ */
+export const DEFAULT_ENDPOINTS_TTL = 5 * 60 * 1000
+
+/**
+ * Default lifetime in ms of the auth tokens created by the client.
+ */
+export const DEFAULT_AUTH_TOKEN_EXPIRATION = 24 * 60 * 60 * 1000
+
+/**
+ * Options of a ProviderClient. A Config can be passed as is, its `authMessage` and
+ * `authTokenExpiration` are then used for the auth tokens.
+ */
+export interface ProviderClientOptions {
+  /**
+   * Time in ms the discovered endpoints are cached for.
+   * @type {number}
+   */
+  endpointsTtl?: number
+
+  /**
+   * Lifetime in ms of the created auth tokens, e.g. `Config.authTokenExpiration`.
+   * @type {number}
+   */
+  authTokenExpiration?: number
+
+  /**
+   * Message shown to the user when an auth token is created, e.g. `Config.authMessage`.
+   * Provider only accepts a signature of the address and nonce, so the message is
+   * logged before the signature is requested instead of being signed.
+   * @type {string}
+   */
+  authMessage?: string
+}
+
+export interface DecryptFromTxRequest {
+  /**
+   * Transaction that set the metadata, the provider reads the encrypted document from it.
+   * @type {string}
+   */
+  transactionId: string
+
+  /**
+   * Address of the ERC721 contract holding the metadata.
+   * @type {string}
+   */
+  dataNftAddress: string
+
+  /**
+   * Expected metaDataHash, read from the transaction when omitted.
+   * @type {string}
+   */
+  documentHash?: string
+}
+
+export interface DecryptDocumentRequest {
+  /**
+   * Encrypted document, as passed to setMetadata.
+   * @type {string}
+   */
+  encryptedDocument: string
+
+  /**
+   * Address of the ERC721 contract holding the metadata.
+   * @type {string}
+   */
+  dataNftAddress: string
+
+  /**
+   * metaDataHash stored on chain with the document.
+   * @type {string}
+   */
+  documentHash: string
+
+  /**
+   * Flags stored with the document, defaults to 2 (encrypted).
+   * @type {number}
+   */
+  flags?: number
+}
+
+export type DecryptRequest = DecryptFromTxRequest | DecryptDocumentRequest
+
+interface AuthTokenEntry {
+  token: string
+  expiresAt: number
+}
+
+interface RequestAuth {
+  signature?: string
+  nonce?: number
+  headers: { [key: string]: string }
+}
+
+export interface ProviderEndpoints {
+  providerAddress: string
+  serviceEndpoints: { [serviceName: string]: [string, string] }
+  chainId?: number
+  software?: string
+  version?: string
+}
+
+/**
+ * Builds the list of service endpoints from the provider root response.
+ * @param {string} providerUri provider uri address
+ * @param {ProviderEndpoints} endpoints provider root response
+ * @return {ServiceEndpoint[]}
+ */
+export function parseServiceEndpoints(
+  providerUri: string,
+  endpoints: ProviderEndpoints
+): ServiceEndpoint[] {
+  const serviceEndpoints: ServiceEndpoint[] = []
+  if (!endpoints) return serviceEndpoints
+  for (const i in endpoints.serviceEndpoints) {
+    const endpoint: ServiceEndpoint = {
+      serviceName: i,
+      method: endpoints.serviceEndpoints[i][0],
+      urlPath: providerUri + endpoints.serviceEndpoints[i][1]
+    }
+    serviceEndpoints.push(endpoint)
+  }
+  return serviceEndpoints
+}
+
+/**
+ * Client bound to a single provider uri. The provider endpoints are discovered
+ * once and cached, they are fetched again when the cache expires or when a
+ * service endpoint answers with 404.
+ * Failed calls throw a ProviderHttpError (or one of its subclasses).
+ */
+export class ProviderClient {
+  public providerUri: string
+  public endpointsTtl: number
+  public authTokenExpiration: number
+  public authMessage: string
+  /**
+   * Nonces used to sign the requests of every account.
+   * @type {NonceManager}
+   */
+  public nonces: NonceManager
+  private endpoints: ProviderEndpoints
+  private serviceEndpoints: ServiceEndpoint[] = []
+  private endpointsExpireAt = 0
+  private endpointsRequest: Promise<ProviderEndpoints>
+  private authTokens: { [address: string]: AuthTokenEntry } = {}
+  private authTokenRequests: { [address: string]: Promise<string> } = {}
+
+  /**
+   * Instantiate ProviderClient
+   * @param {string} providerUri provider uri address
+   * @param {ProviderClientOptions} options client options, or the Config of the app
+   */
+  constructor(providerUri: string, options?: ProviderClientOptions) {
+    this.providerUri = providerUri
+    this.endpointsTtl = options?.endpointsTtl ?? DEFAULT_ENDPOINTS_TTL
+    this.authTokenExpiration =
+      options?.authTokenExpiration ?? DEFAULT_AUTH_TOKEN_EXPIRATION
+    this.authMessage = options?.authMessage
+    this.nonces = new NonceManager((address, signal) => this.syncNonce(address, signal))
+  }
+
+  /**
+   * Returns the provider endpoints, from cache when they are still fresh
+   * @param {boolean} forceRefresh ignore the cached endpoints
+   * @return {Promise<ProviderEndpoints>}
+   */
+  public async getEndpoints(forceRefresh: boolean = false): Promise<ProviderEndpoints> {
+    if (!forceRefresh && this.endpoints && Date.now() < this.endpointsExpireAt) {
+      return this.endpoints
+    }
+    if (!this.endpointsRequest) this.endpointsRequest = this.fetchEndpoints()
+    return this.endpointsRequest
+  }
+
+  /**
+   * Returns the service endpoints that exist in provider.
+   * @return {Promise<ServiceEndpoint[]>}
+   */
+  public async getServiceEndpoints(): Promise<ServiceEndpoint[]> {
+    await this.getEndpoints()
+    return this.serviceEndpoints
+  }
+
+  /**
+   * Returns the full url of a provider service, or null if the provider does not expose it
+   * @param {string} serviceName name of the service, e.g. `encrypt`
+   * @return {Promise<string>}
+   */
+  public async getEndpointURL(serviceName: string): Promise<string> {
+    const serviceEndpoints = await this.getServiceEndpoints()
+    const endpoint = serviceEndpoints.find((s) => s.serviceName === serviceName)
+    return endpoint ? endpoint.urlPath : null
+  }
+
+  /**
+   * Drops the cached endpoints, the next call will discover them again
+   */
+  public invalidateEndpoints() {
+    this.endpointsExpireAt = 0
+  }
+
+  /** Creates an auth token for an account, or returns the cached one while it is valid.
+   * Once created, the token is sent instead of a signature by the calls of this account.
+   * Fails with EndpointNotFoundError when the provider does not support auth tokens.
+   * @param {Web3 | Signer} web3 web3 instance or Signer of the account
+   * @param {string} address account address
+   * @param {AbortSignal} signal abort signal
+   * @return {Promise<string>} auth token
+   */
+  public async createAuthToken(
+    web3: Web3 | Signer,
+    address: string,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const key = address.toLowerCase()
+    const cached = this.getAuthToken(address)
+    if (cached) return cached
+    if (!this.authTokenRequests[key]) {
+      this.authTokenRequests[key] = this.requestAuthToken(web3, address, signal).finally(
+        () => delete this.authTokenRequests[key]
+      )
+    }
+    return this.authTokenRequests[key]
+  }
+
+  /** Revokes the auth token of an account and drops it from the cache
+   * @param {Web3 | Signer} web3 web3 instance or Signer of the account
+   * @param {string} address account address
+   * @param {AbortSignal} signal abort signal
+   * @return {Promise<void>}
+   */
+  public async deleteAuthToken(
+    web3: Web3 | Signer,
+    address: string,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const key = address.toLowerCase()
+    const entry = this.authTokens[key]
+    delete this.authTokens[key]
+    if (!entry || entry.expiresAt <= Date.now()) return
+
+    const sign = (nonce: number) => signProviderRequest(web3, address, address + nonce)
+    await this.withNonce(
+      address,
+      sign,
+      async (auth) => {
+        let query = `?address=${address}`
+        query += `&token=${entry.token}`
+        query += `&nonce=${auth.nonce}`
+        query += `&signature=${auth.signature}`
+        await this.fetchService('delete_auth_token', query, {
+          method: 'DELETE',
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          signal
+        })
+      },
+      signal
+    )
+  }
+
+  /**
+   * Returns the cached auth token of an account, null when there is none or it expired
+   * @param {string} address account address
+   * @return {string}
+   */
+  public getAuthToken(address: string): string {
+    const entry = address && this.authTokens[address.toLowerCase()]
+    // stop using tokens shortly before they expire, requests take time
+    if (!entry || entry.expiresAt - 60 * 1000 <= Date.now()) return null
+    return entry.token
+  }
+
+  /**
+   * Returns the headers authenticating an account with its cached auth token,
+   * e.g. to fetch a url returned by `getDownloadUrl`
+   * @param {string} address account address
+   * @return {{ [key: string]: string }} empty when there is no token
+   */
+  public getAuthHeaders(address: string): { [key: string]: string } {
+    const token = this.getAuthToken(address)
+    return token ? { AuthToken: token } : {}
+  }
+
+  /**
+   * Returns the accounts that have a cached auth token
+   * @return {string[]}
+   */
+  public getAuthTokenAccounts(): string[] {
+    return Object.keys(this.authTokens).filter((address) => this.getAuthToken(address))
+  }
+
+  /** Gets current nonce
+   * @param {string} consumerAddress Publisher address
+   * @param {AbortSignal} signal abort signal
+   * @return {Promise<string>} nonce
+   */
+  public async getNonce(consumerAddress: string, signal?: AbortSignal): Promise<string> {
+    const response = await this.fetchService('nonce', `?userAddress=${consumerAddress}`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      signal
+    })
+    return (await response.json()).nonce.toString()
+  }
+
+  /** Encrypt data using the Provider's own symmetric key
+   * Files objects are validated first and rejected with an InvalidFilesError.
+   * @param {string} data data in json format that needs to be sent , it can either be a DDO or a File array
+   * @param {AbortSignal} signal abort signal
+   * @return {Promise<string>} urlDetails
+   */
+  public async encrypt(data: any, signal?: AbortSignal): Promise<string> {
+    if (isFilesObject(data)) {
+      const issues = validateFiles(data)
+      if (issues.length > 0) throw new InvalidFilesError(issues)
+    }
+    const response = await this.fetchService('encrypt', '', {
+      method: 'POST',
+      body: JSON.stringify(data),
+      headers: {
+        'Content-Type': 'application/octet-stream'
+      },
+      signal
+    })
+    return await response.text()
+  }
+
+  /** Decrypt a document encrypted by this provider, e.g. the DDO passed to setMetadata.
+   * Only the publisher, metadata updaters or addresses allowed by the provider can decrypt.
+   * The decrypted document is checked against the metaDataHash stored on chain.
+   * @param {Web3 | Signer} web3 web3 instance or Signer of the decrypter
+   * @param {string} decrypterAddress address of the decrypter
+   * @param {number} chainId chain the metadata is stored on
+   * @param {DecryptRequest} request transaction id or encrypted document to decrypt
+   * @param {AbortSignal} signal abort signal
+   * @return {Promise<string>} decrypted document
+   */
+  public async decrypt(
+    web3: Web3 | Signer,
+    decrypterAddress: string,
+    chainId: number,
+    request: DecryptRequest,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const transactionId = 'transactionId' in request ? request.transactionId : undefined
+    let { documentHash } = request
+    if (!documentHash && transactionId) {
+      if (isSigner(web3)) {
+        throw new Error('A documentHash is required to decrypt with a Signer')
+      }
+      const event = await getMetadataEventFromTx(
+        web3,
+        transactionId,
+        request.dataNftAddress
+      )
+      if (!event) {
+        throw new Error(`Transaction ${transactionId} did not set metadata`)
+      }
+      documentHash = event.metaDataHash
+    }
+
+    const sign = (nonce: number) => {
+      let signatureMessage = transactionId || ''
+      signatureMessage += request.dataNftAddress
+      signatureMessage += decrypterAddress
+      signatureMessage += chainId
+      signatureMessage += nonce
+      return signProviderRequest(web3, decrypterAddress, signatureMessage)
+    }
+    const document = await this.withNonce(
+      decrypterAddress,
+      sign,
+      async (auth) => {
+        const payload = Object()
+        payload.decrypterAddress = decrypterAddress
+        payload.chainId = chainId
+        payload.dataNftAddress = request.dataNftAddress
+        if (transactionId) payload.transactionId = transactionId
+        if ('encryptedDocument' in request) {
+          payload.encryptedDocument = request.encryptedDocument
+          payload.flags = request.flags ?? 2
+          payload.documentHash = documentHash
+        }
+        payload.nonce = auth.nonce
+        payload.signature = auth.signature
+        const response = await this.fetchService('decrypt', '', {
+          method: 'POST',
+          body: JSON.stringify(payload),
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          signal
+        })
+        return response.text()
+      },
+      signal
+    )
+    verifyDocumentHash(document, documentHash)
+    return document
+  }
+
+  /** Get DDO File details (if possible)
+   * @param {string} did did
+   * @param {number} serviceId the id of the service for which to check the files
+   * @param {boolean} withChecksum ask the provider to compute the file checksum
+   * @param {AbortSignal} signal abort signal
+   * @return {Promise<StorageObjectInfo[]>} urlDetails
+   */
+  public async checkDidFiles(
+    did: string,
+    serviceId: string,
+    withChecksum: boolean = false,
+    signal?: AbortSignal
+  ): Promise<StorageObjectInfo[]> {
+    const args = { did, serviceId, checksum: withChecksum }
+    return this.fileInfo(args, signal)
+  }
+
+  /** Get URL details (if possible)
+   * @param {string} url or did
+   * @param {AbortSignal} signal abort signal
+   * @return {Promise<UrlFileInfo[]>} urlDetails
+   */
+  public async checkFileUrl(url: string, signal?: AbortSignal): Promise<UrlFileInfo[]> {
+    const args = { url, type: 'url' }
+    return (await this.fileInfo(args, signal)) as UrlFileInfo[]
+  }
+
+  /** Get details of a file of any supported type (if possible)
+   * @param {StorageObject} file file descriptor, validated before it is sent
+   * @param {AbortSignal} signal abort signal
+   * @return {Promise<StorageObjectInfo[]>} file details
+   */
+  public async checkFile(
+    file: StorageObject,
+    signal?: AbortSignal
+  ): Promise<StorageObjectInfo[]> {
+    const issues = validateStorageObject(file)
+    if (issues.length > 0) throw new InvalidFilesError(issues)
+    return this.fileInfo(file, signal)
+  }
+
+  /** Get Compute Environments
+   * @param {AbortSignal} signal abort signal
+   * @return {Promise<ComputeEnvironment[]>} urlDetails
+   */
+  public async getComputeEnvironments(
+    signal?: AbortSignal
+  ): Promise<ComputeEnvironment[]> {
+    const response = await this.fetchService('computeEnvironments', '', {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      signal
+    })
+    const envs: ComputeEnvironment[] = await response.json()
+    return envs
+  }
+
+  /** Initialize a service request.
+   * @param {string} did
+   * @param {string} serviceId
+   * @param {number} fileIndex
+   * @param {string} consumerAddress
+   * @param {AbortSignal} signal abort signal
+   * @param {UserCustomParameters} userCustomParameters
+   * @param {string} computeEnv
+   * @param {number} validUntil
+   * @param {ConsumerParameter[]} consumerParameters userdata is checked against them first
+   * @return {Promise<ProviderInitialize>} ProviderInitialize data
+   */
+  public async initialize(
+    did: string,
+    serviceId: string,
+    fileIndex: number,
+    consumerAddress: string,
+    signal?: AbortSignal,
+    userCustomParameters?: UserCustomParameters,
+    computeEnv?: string,
+    validUntil?: number,
+    consumerParameters?: ConsumerParameter[]
+  ): Promise<ProviderInitialize> {
+    if (consumerParameters) {
+      assertValidConsumerParameters(consumerParameters, userCustomParameters)
+    }
+    let query = `?documentId=${did}`
+    query += `&serviceId=${serviceId}`
+    query += `&fileIndex=${fileIndex}`
+    query += `&consumerAddress=${consumerAddress}`
+    if (userCustomParameters)
+      query += '&userdata=' + encodeURI(JSON.stringify(userCustomParameters))
+    if (computeEnv) query += '&environment=' + encodeURI(computeEnv)
+    if (validUntil) query += '&validUntil=' + validUntil
+    const response = await this.fetchService('initialize', query, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      signal
+    })
+    const results: ProviderInitialize = await response.json()
+    return results
+  }
+
+  /** Selects the best compute environment matching the requirements
+   * @param {ComputeEnvironmentRequirements} requirements job requirements
+   * @param {AbortSignal} signal abort signal
+   * @return {Promise<RankedComputeEnvironment>} null when no environment matches
+   */
+  public async selectComputeEnvironment(
+    requirements: ComputeEnvironmentRequirements,
+    signal?: AbortSignal
+  ): Promise<RankedComputeEnvironment> {
+    const environments = await this.getComputeEnvironments(signal)
+    return selectComputeEnvironment(environments, requirements)
+  }
+
+  /** Initialize a compute request.
+   * When requirements are given instead of an environment id, the best matching
+   * environment is selected and returned as `computeEnv`.
+   * @param {ComputeAsset} assets
+   * @param {ComputeAlgorithmber} algorithm
+   * @param {string | ComputeEnvironmentRequirements} computeEnv environment id or requirements
+   * @param {number} validUntil
+   * @param {string} accountId
+   * @param {AbortSignal} signal abort signal
+   * @param {ComputeConsumerParameters} consumerParameters userdata and algocustomdata are checked against them first
+   * @return {Promise<ProviderComputeInitialize>} ProviderComputeInitialize data
+   */
+  public async initializeCompute(
+    assets: ComputeAsset[],
+    algorithm: ComputeAlgorithm,
+    computeEnv: string | ComputeEnvironmentRequirements,
+    validUntil: number,
+    accountId: string,
+    signal?: AbortSignal,
+    consumerParameters?: ComputeConsumerParameters
+  ): Promise<ProviderComputeInitializeResults> {
+    assertValidComputeConsumerParameters(assets, algorithm, consumerParameters)
+    let selected: RankedComputeEnvironment
+    if (typeof computeEnv !== 'string') {
+      selected = await this.selectComputeEnvironment(computeEnv, signal)
+      if (!selected) {
+        throw new Error(
+          `No compute environment of provider ${this.providerUri} matches the requirements`
+        )
+      }
+    }
+    const providerData = {
+      datasets: assets,
+      algorithm,
+      compute: {
+        env: selected ? selected.environment.id : computeEnv,
+        validUntil
+      },
+      consumerAddress: accountId
+    }
+    const response = await this.fetchService('initializeCompute', '', {
+      method: 'POST',
+      body: JSON.stringify(providerData),
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      signal
+    })
+    const results: ProviderComputeInitializeResults = await response.json()
+    if (selected) results.computeEnv = selected
+    return results
+  }
+
+  /** Gets fully signed URL for download
+   * When the account has an auth token the url is not signed, it must be fetched
+   * with the headers returned by `getAuthHeaders`.
+   * @param {string} did
+   * @param {string} accountId
+   * @param {string} serviceId
+   * @param {number} fileIndex
+   * @param {string} transferTxId
+   * @param {Web3 | Signer} web3
+   * @param {UserCustomParameters} userCustomParameters
+   * @param {ConsumerParameter[]} consumerParameters userdata is checked against them first
+   * @return {Promise<string>}
+   */
+  public async getDownloadUrl(
+    did: string,
+    accountId: string,
+    serviceId: string,
+    fileIndex: number,
+    transferTxId: string,
+    web3: Web3 | Signer,
+    userCustomParameters?: UserCustomParameters,
+    consumerParameters?: ConsumerParameter[]
+  ): Promise<any> {
+    if (consumerParameters) {
+      assertValidConsumerParameters(consumerParameters, userCustomParameters)
+    }
+    const downloadUrl = await this.requireEndpointURL('download')
+    const nonce = await this.nonces.next(accountId)
+    const signature = this.getAuthToken(accountId)
+      ? null
+      : await signProviderRequest(web3, accountId, did + nonce)
+    let consumeUrl = downloadUrl
+    consumeUrl += `?fileIndex=${fileIndex}`
+    consumeUrl += `&documentId=${did}`
+    consumeUrl += `&transferTxId=${transferTxId}`
+    consumeUrl += `&serviceId=${serviceId}`
+    consumeUrl += `&consumerAddress=${accountId}`
+    consumeUrl += `&nonce=${nonce}`
+    consumeUrl += (signature && `&signature=${signature}`) || ''
+    if (userCustomParameters)
+      consumeUrl += '&userdata=' + encodeURI(JSON.stringify(userCustomParameters))
+    return consumeUrl
+  }
+
+  /** Instruct the provider to start a compute job
+   * @param {Web3 | Signer} web3
+   * @param {string} consumerAddress
+   * @param {string} computeEnv
+   * @param {ComputeAsset} dataset
+   * @param {ComputeAlgorithm} algorithm
+   * @param {AbortSignal} signal abort signal
+   * @param {ComputeAsset[]} additionalDatasets
+   * @param {ComputeOutput} output
+   * @param {ComputeConsumerParameters} consumerParameters userdata and algocustomdata are checked against them first
+   * @return {Promise<ComputeJob | ComputeJob[]>}
+   */
+  public async computeStart(
+    web3: Web3 | Signer,
+    consumerAddress: string,
+    computeEnv: string,
+    dataset: ComputeAsset,
+    algorithm: ComputeAlgorithm,
+    signal?: AbortSignal,
+    additionalDatasets?: ComputeAsset[],
+    output?: ComputeOutput,
+    consumerParameters?: ComputeConsumerParameters
+  ): Promise<ComputeJob | ComputeJob[]> {
+    assertValidComputeConsumerParameters(
+      [dataset, ...(additionalDatasets || [])],
+      algorithm,
+      consumerParameters
+    )
+    const sign = (nonce: number) => {
+      let signatureMessage = consumerAddress
+      signatureMessage += dataset.documentId
+      signatureMessage += nonce
+      return signProviderRequest(web3, consumerAddress, signatureMessage)
+    }
+    return this.withAuth(consumerAddress, sign, signal, async (auth) => {
+      const payload = Object()
+      payload.consumerAddress = consumerAddress
+      if (auth.signature) payload.signature = auth.signature
+      if (auth.nonce) payload.nonce = auth.nonce
+      payload.environment = computeEnv
+      payload.dataset = dataset
+      payload.algorithm = algorithm
+      if (additionalDatasets) payload.additionalDatasets = additionalDatasets
+      if (output) payload.output = output
+      const response = await this.fetchService('computeStart', '', {
+        method: 'POST',
+        body: JSON.stringify(payload),
+        headers: {
+          'Content-Type': 'application/json',
+          ...auth.headers
+        },
+        signal
+      })
+      return await response.json()
+    })
+  }
+
+  /** Instruct the provider to Stop the execution of a to stop a compute job.
+   * @param {string} did
+   * @param {string} consumerAddress
+   * @param {string} jobId
+   * @param {Web3 | Signer} web3
+   * @param {AbortSignal} signal abort signal
+   * @return {Promise<ComputeJob | ComputeJob[]>}
+   */
+  public async computeStop(
+    did: string,
+    consumerAddress: string,
+    jobId: string,
+    web3: Web3 | Signer,
+    signal?: AbortSignal
+  ): Promise<ComputeJob | ComputeJob[]> {
+    const sign = (nonce: number) =>
+      this.signJobRequest(web3, consumerAddress, jobId, did, nonce)
+    return this.withAuth(consumerAddress, sign, signal, async (auth) => {
+      const payload = Object()
+      if (auth.signature) payload.signature = auth.signature
+      if (auth.nonce) payload.nonce = auth.nonce
+      payload.documentId = noZeroX(did)
+      payload.consumerAddress = consumerAddress
+      if (jobId) payload.jobId = jobId
+
+      const response = await this.fetchService('computeStop', '', {
+        method: 'PUT',
+        body: JSON.stringify(payload),
+        headers: {
+          'Content-Type': 'application/json',
+          ...auth.headers
+        },
+        signal
+      })
+      return await response.json()
+    })
+  }
+
+  /** Get compute status for a specific jobId/documentId/owner.
+   * @param {string} consumerAddress The consumer ethereum address
+   * @param {string} jobId The ID of a compute job.
+   * @param {string} did The ID of the asset
+   * @param {AbortSignal} signal abort signal
+   * @return {Promise<ComputeJob | ComputeJob[]>}
+   */
+  public async computeStatus(
+    consumerAddress: string,
+    jobId?: string,
+    did?: string,
+    signal?: AbortSignal
+  ): Promise<ComputeJob | ComputeJob[]> {
+    let query = `?consumerAddress=${consumerAddress}`
+    query += (did && `&documentId=${noZeroX(did)}`) || ''
+    query += (jobId && `&jobId=${jobId}`) || ''
+
+    return this.withAuth(consumerAddress, null, signal, async (auth) => {
+      const response = await this.fetchService('computeStatus', query, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          ...auth.headers
+        },
+        signal
+      })
+      return await response.json()
+    })
+  }
+
+  /** Get compute result url
+   * When the account has an auth token the url is not signed, it must be fetched
+   * with the headers returned by `getAuthHeaders`.
+   * @param {Web3 | Signer} web3 Web3 instance or Signer
+   * @param {string} consumerAddress The consumer ethereum address
+   * @param {string} jobId The ID of a compute job.
+   * @param {number} index Result index
+   * @return {Promise<string>}
+   */
+  public async getComputeResultUrl(
+    web3: Web3 | Signer,
+    consumerAddress: string,
+    jobId: string,
+    index: number
+  ): Promise<string> {
+    const computeResultUrl = await this.requireEndpointURL('computeResult')
+
+    const nonce = await this.nonces.next(consumerAddress)
+    let signatureMessage = consumerAddress
+    signatureMessage += jobId
+    signatureMessage += index.toString()
+    signatureMessage += nonce
+    const signature = this.getAuthToken(consumerAddress)
+      ? null
+      : await signProviderRequest(web3, consumerAddress, signatureMessage)
+    let resultUrl = computeResultUrl
+    resultUrl += `?consumerAddress=${consumerAddress}`
+    resultUrl += `&jobId=${jobId}`
+    resultUrl += `&index=${index.toString()}`
+    resultUrl += `&nonce=${nonce}`
+    resultUrl += (signature && `&signature=${signature}`) || ''
+    return resultUrl
+  }
+
+  /** Deletes a compute job.
+   * @param {string} did
+   * @param {string} consumerAddress
+   * @param {string} jobId
+   * @param {Web3 | Signer} web3
+   * @param {AbortSignal} signal abort signal
+   * @return {Promise<ComputeJob | ComputeJob[]>}
+   */
+  public async computeDelete(
+    did: string,
+    consumerAddress: string,
+    jobId: string,
+    web3: Web3 | Signer,
+    signal?: AbortSignal
+  ): Promise<ComputeJob | ComputeJob[]> {
+    const sign = (nonce: number) =>
+      this.signJobRequest(web3, consumerAddress, jobId, did, nonce)
+    return this.withAuth(consumerAddress, sign, signal, async (auth) => {
+      const payload = Object()
+      payload.documentId = noZeroX(did)
+      payload.consumerAddress = consumerAddress
+      payload.jobId = jobId
+      if (auth.signature) payload.signature = auth.signature
+      if (auth.nonce) payload.nonce = auth.nonce
+
+      const response = await this.fetchService('computeDelete', '', {
+        method: 'DELETE',
+        body: JSON.stringify(payload),
+        headers: {
+          'Content-Type': 'application/json',
+          ...auth.headers
+        },
+        signal
+      })
+      return await response.json()
+    })
+  }
+
+  /** Check if the provider uri points to a valid provider.
+   * The endpoints returned by a valid provider are cached.
+   * @param {AbortSignal} signal abort signal
+   * @return {Promise<boolean>}
+   */
+  public async isValidProvider(signal?: AbortSignal): Promise<boolean> {
+    try {
+      const response = await fetch(this.providerUri, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        signal
+      })
+      if (response?.ok) {
+        const params = await response.json()
+        if (params && params.providerAddress) {
+          this.setEndpoints(params)
+          return true
+        }
+      }
+      return false
+    } catch (error) {
+      LoggerInstance.error(`Error validating provider: ${error.message}`)
+      return false
+    }
+  }
+
+  private async requestAuthToken(
+    web3: Web3 | Signer,
+    address: string,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const expiresAt = Date.now() + this.authTokenExpiration
+    if (this.authMessage) LoggerInstance.log(this.authMessage)
+    const sign = (nonce: number) => signProviderRequest(web3, address, address + nonce)
+    const { token } = await this.withNonce(
+      address,
+      sign,
+      async (auth) => {
+        let query = `?address=${address}`
+        query += `&expiration=${Math.floor(expiresAt / 1000)}`
+        query += `&nonce=${auth.nonce}`
+        query += `&signature=${auth.signature}`
+        const response = await this.fetchService('create_auth_token', query, {
+          method: 'GET',
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          signal
+        })
+        return response.json()
+      },
+      signal
+    )
+    this.authTokens[address.toLowerCase()] = { token, expiresAt }
+    return token
+  }
+
+  /**
+   * Runs a request of an account with its cached auth token when there is one,
+   * otherwise signed with `withNonce`, or unsigned when `sign` is null.
+   * A rejected token is dropped and the request is sent again without it.
+   */
+  private async withAuth<T>(
+    address: string,
+    sign: (nonce: number) => Promise<string>,
+    signal: AbortSignal,
+    request: (auth: RequestAuth) => Promise<T>
+  ): Promise<T> {
+    const headers = this.getAuthHeaders(address)
+    if (headers.AuthToken) {
+      try {
+        return await request({ headers })
+      } catch (e) {
+        if (!(e instanceof InvalidSignatureError)) throw e
+        LoggerInstance.warn(`Auth token of ${address} was rejected, signing instead`)
+        delete this.authTokens[address.toLowerCase()]
+      }
+    }
+    if (!sign) return request({ headers: {} })
+    return this.withNonce(address, sign, request, signal)
+  }
+
+  /**
+   * Runs a request signed with the next nonce of the account. When the provider
+   * rejects the signature, the nonce is synced from the provider and the request
+   * is signed and sent once more.
+   */
+  private async withNonce<T>(
+    address: string,
+    sign: (nonce: number) => Promise<string>,
+    request: (auth: RequestAuth) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const signed = async (): Promise<RequestAuth> => {
+      const nonce = await this.nonces.next(address, signal)
+      return { nonce, signature: await sign(nonce), headers: {} }
+    }
+    try {
+      return await request(await signed())
+    } catch (e) {
+      if (!(e instanceof InvalidSignatureError)) throw e
+      LoggerInstance.warn(`Signature of ${address} was rejected, syncing its nonce`)
+      await this.nonces.resync(address, signal)
+      return request(await signed())
+    }
+  }
+
+  /**
+   * Reads the nonce of an account for the NonceManager. Providers without a nonce
+   * endpoint accept any increasing nonce, a time based one is used for them.
+   */
+  private async syncNonce(address: string, signal?: AbortSignal): Promise<string> {
+    try {
+      return await this.getNonce(address, signal)
+    } catch (e) {
+      if (!(e instanceof EndpointNotFoundError)) throw e
+      return Date.now().toString()
+    }
+  }
+
+  private signJobRequest(
+    web3: Web3 | Signer,
+    consumerAddress: string,
+    jobId: string,
+    did: string,
+    nonce: number
+  ): Promise<string> {
+    let signatureMessage = consumerAddress
+    signatureMessage += jobId || ''
+    signatureMessage += (did && `${noZeroX(did)}`) || ''
+    signatureMessage += nonce
+    return signProviderRequest(web3, consumerAddress, signatureMessage)
+  }
+
+  private async fileInfo(args: any, signal?: AbortSignal): Promise<StorageObjectInfo[]> {
+    const response = await this.fetchService('fileinfo', '', {
+      method: 'POST',
+      body: JSON.stringify(args),
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      signal
+    })
+    const files: StorageObjectInfo[] = await response.json()
+    return files
+  }
+
+  /**
+   * Returns the url of a provider service, failing when it can not be found
+   * @param {string} serviceName name of the service
+   * @return {Promise<string>}
+   */
+  private async requireEndpointURL(serviceName: string): Promise<string> {
+    if (!(await this.getEndpoints())) {
+      throw new ProviderUnavailableError(
+        `Could not discover the endpoints of provider ${this.providerUri}`,
+        { endpoint: this.providerUri, method: 'GET' }
+      )
+    }
+    const path = await this.getEndpointURL(serviceName)
+    if (!path) {
+      throw new EndpointNotFoundError(
+        `Provider ${this.providerUri} does not expose the ${serviceName} endpoint`,
+        { endpoint: this.providerUri }
+      )
+    }
+    return path
+  }
+
+  /**
+   * Calls a provider service. When the service answers with 404 the endpoints
+   * are discovered again and, if the service moved, the call is retried once.
+   * @param {string} serviceName name of the service
+   * @param {string} query query string appended to the service url
+   * @param {RequestInit} init fetch options
+   * @return {Promise<Response>} successful response
+   */
+  private async fetchService(
+    serviceName: string,
+    query: string,
+    init: RequestInit
+  ): Promise<Response> {
+    const path = await this.requireEndpointURL(serviceName)
+    let url = path + query
+    let response = await this.fetchOrFail(url, init)
+    if (response.status === 404) {
+      await this.getEndpoints(true)
+      const refreshedPath = await this.getEndpointURL(serviceName)
+      if (refreshedPath && refreshedPath !== path) {
+        url = refreshedPath + query
+        response = await this.fetchOrFail(url, init)
+      }
+    }
+    if (!response.ok) {
+      const error = await createProviderError(
+        response,
+        url,
+        init.method,
+        init.body || query
+      )
+      LoggerInstance.error(error.message)
+      throw error
+    }
+    return response
+  }
+
+  private async fetchOrFail(url: string, init: RequestInit): Promise<Response> {
+    try {
+      return await fetch(url, init)
+    } catch (e) {
+      if (e.name === 'AbortError') throw e
+      const error = new ProviderUnavailableError(
+        `Provider ${init.method} ${url.split('?')[0]} failed: ${e.message}`,
+        {
+          endpoint: url.split('?')[0],
+          method: init.method,
+          payload: summarizePayload(init.body)
+        }
+      )
+      LoggerInstance.error(error.message)
+      throw error
+    }
+  }
+
+  private async fetchEndpoints(): Promise<ProviderEndpoints> {
+    try {
+      const response = await getData(this.providerUri)
+      if (!response.ok) throw new Error(`Provider answered with ${response.status}`)
+      const endpoints: ProviderEndpoints = await response.json()
+      this.setEndpoints(endpoints)
+      return endpoints
+    } catch (e) {
+      LoggerInstance.error('Finding the service endpoints failed:', e)
+      return null
+    } finally {
+      this.endpointsRequest = null
+    }
+  }
+
+  private setEndpoints(endpoints: ProviderEndpoints) {
+    const previousVersion = this.endpoints?.version
+    this.endpoints = endpoints
+    this.serviceEndpoints = parseServiceEndpoints(this.providerUri, endpoints)
+    this.endpointsExpireAt = Date.now() + this.endpointsTtl
+    if (previousVersion !== undefined && previousVersion !== endpoints.version) {
+      LoggerInstance.log(
+        `Provider ${this.providerUri} changed version from ${previousVersion} to ${endpoints.version}, dropping its cached state`
+      )
+      // nonces and auth tokens were issued by the previous version
+      this.nonces.reset()
+      this.authTokens = {}
+    }
+  }
+}
@@ -0,0 +1,377 @@
+import { LoggerInstance, ProviderUnavailableError } from '../utils'
+import { ProviderClient, ProviderClientOptions } from './ProviderClient'
+
+/**
+ * Services a provider must expose to be considered healthy, unless
+ * `requiredServices` is set.
+ */
+export const DEFAULT_REQUIRED_SERVICES = [
+  'nonce',
+  'encrypt',
+  'fileinfo',
+  'initialize',
+  'download'
+]
+
+export interface ProviderPoolOptions {
+  /**
+   * Time in ms between two health checks, defaults to 30000. 0 disables periodic checks.
+   * @type {number}
+   */
+  interval?: number
+
+  /**
+   * Time in ms a provider has to answer a health check, defaults to 5000.
+   * @type {number}
+   */
+  timeout?: number
+
+  /**
+   * Time in ms after which an unhealthy provider is checked again when a request
+   * needs a provider, defaults to 30000. Lets providers recover without periodic checks.
+   * @type {number}
+   */
+  cooldown?: number
+
+  /**
+   * Services a provider must expose to be healthy.
+   * @type {string[]}
+   */
+  requiredServices?: string[]
+
+  /**
+   * Options of the clients created for every provider.
+   * @type {ProviderClientOptions}
+   */
+  clientOptions?: ProviderClientOptions
+}
+
+export interface ProviderHealth {
+  providerUri: string
+
+  /**
+   * True when the provider answered in time and exposes every required service.
+   * @type {boolean}
+   */
+  healthy: boolean
+
+  /**
+   * Time in ms the endpoint discovery took, null when the provider did not answer.
+   * @type {number}
+   */
+  latency: number
+
+  /**
+   * Address the provider signs and encrypts with.
+   * @type {string}
+   */
+  providerAddress: string
+
+  /**
+   * Required services the provider does not expose.
+   * @type {string[]}
+   */
+  missingServices: string[]
+
+  /**
+   * Unix time in ms of the check.
+   * @type {number}
+   */
+  checkedAt: number
+
+  /**
+   * Why the provider is not healthy.
+   * @type {string}
+   */
+  error?: string
+}
+
+export interface ProviderPoolRequestOptions {
+  /**
+   * Only use providers with this address, e.g. to decrypt data encrypted by it.
+   * @type {string}
+   */
+  providerAddress?: string
+}
+
+export interface ProviderPoolEncryptResult {
+  /**
+   * Encrypted data.
+   * @type {string}
+   */
+  data: string
+
+  /**
+   * Provider that encrypted the data.
+   * @type {string}
+   */
+  providerUri: string
+
+  /**
+   * Address the data is bound to, only providers with this address can decrypt it.
+   * @type {string}
+   */
+  providerAddress: string
+}
+
+/**
+ * Group of providers serving the same assets. Providers are health checked
+ * periodically, and unhealthy ones again on demand once the cooldown passed.
+ * Requests go to the healthy provider with the lowest latency, failing over to
+ * the next one when a provider is unavailable.
+ */
+export class ProviderPool {
+  public providerUris: string[]
+  private options: ProviderPoolOptions
+  private clients: { [providerUri: string]: ProviderClient } = {}
+  private health: { [providerUri: string]: ProviderHealth } = {}
+  private timer: ReturnType<typeof setInterval>
+  private checking: Promise<ProviderHealth[]>
+  private checks: { [providerUri: string]: Promise<ProviderHealth> } = {}
+
+  /**
+   * Instantiate ProviderPool
+   * @param {string[]} providerUris uris of the providers
+   * @param {ProviderPoolOptions} options pool options
+   */
+  constructor(providerUris: string[], options: ProviderPoolOptions = {}) {
+    if (!providerUris || providerUris.length === 0) {
+      throw new Error('A provider pool needs at least one provider uri')
+    }
+    this.providerUris = providerUris
+    this.options = {
+      interval: 30000,
+      timeout: 5000,
+      cooldown: 30000,
+      requiredServices: DEFAULT_REQUIRED_SERVICES,
+      ...options
+    }
+    for (const providerUri of providerUris) {
+      this.clients[providerUri] = new ProviderClient(providerUri, options.clientOptions)
+    }
+  }
+
+  /**
+   * Checks every provider and starts the periodic health checks
+   * @return {Promise<ProviderHealth[]>} health of every provider
+   */
+  public async start(): Promise<ProviderHealth[]> {
+    if (!this.timer && this.options.interval > 0) {
+      this.timer = setInterval(() => {
+        this.checkHealth().catch((e) =>
+          LoggerInstance.error('Provider health check failed:', e.message)
+        )
+      }, this.options.interval)
+      // do not keep node processes alive only for health checks
+      if (typeof this.timer === 'object' && this.timer.unref) this.timer.unref()
+    }
+    return this.checkHealth()
+  }
+
+  /**
+   * Stops the periodic health checks
+   */
+  public stop() {
+    if (this.timer) clearInterval(this.timer)
+    this.timer = null
+  }
+
+  /**
+   * Returns the client of a provider of the pool
+   * @param {string} providerUri provider uri
+   * @return {ProviderClient}
+   */
+  public getClient(providerUri: string): ProviderClient {
+    return this.clients[providerUri]
+  }
+
+  /**
+   * Checks every provider now, concurrent calls share the same check
+   * @return {Promise<ProviderHealth[]>} health of every provider
+   */
+  public checkHealth(): Promise<ProviderHealth[]> {
+    if (!this.checking) {
+      this.checking = Promise.all(
+        this.providerUris.map((providerUri) => this.checkProvider(providerUri))
+      ).finally(() => {
+        this.checking = null
+      })
+    }
+    return this.checking
+  }
+
+  /**
+   * Returns the result of the last health checks, best providers first
+   * @return {ProviderHealth[]}
+   */
+  public getHealth(): ProviderHealth[] {
+    return this.rank(Object.values(this.health))
+  }
+
+  /**
+   * Returns the client of the best healthy provider
+   * @param {ProviderPoolRequestOptions} options restrict the providers used
+   * @return {Promise<ProviderClient>}
+   */
+  public async getBestClient(
+    options: ProviderPoolRequestOptions = {}
+  ): Promise<ProviderClient> {
+    const [client] = await this.getCandidates(options)
+    return client
+  }
+
+  /**
+   * Runs a request against the best healthy provider. When the provider is
+   * unavailable it is marked unhealthy and the request is retried on the next one.
+   * @param {Function} request request to run with a provider client
+   * @param {ProviderPoolRequestOptions} options restrict the providers used
+   * @return {Promise<T>} result of the request
+   */
+  public async request<T>(
+    request: (client: ProviderClient) => Promise<T>,
+    options: ProviderPoolRequestOptions = {}
+  ): Promise<T> {
+    const candidates = await this.getCandidates(options)
+    let lastError: Error
+    for (const client of candidates) {
+      try {
+        return await request(client)
+      } catch (e) {
+        if (!(e instanceof ProviderUnavailableError)) throw e
+        LoggerInstance.warn(
+          `Provider ${client.providerUri} is unavailable, failing over:`,
+          e.message
+        )
+        this.markUnhealthy(client.providerUri, e.message)
+        lastError = e
+      }
+    }
+    throw lastError
+  }
+
+  /**
+   * Encrypts data with the best healthy provider and reports which provider
+   * address the data is bound to
+   * @param {any} data data to encrypt, a DDO or files object
+   * @param {AbortSignal} signal abort signal
+   * @return {Promise<ProviderPoolEncryptResult>}
+   */
+  public async encrypt(
+    data: any,
+    signal?: AbortSignal
+  ): Promise<ProviderPoolEncryptResult> {
+    return this.request(async (client) => {
+      const encrypted = await client.encrypt(data, signal)
+      const endpoints = await client.getEndpoints()
+      return {
+        data: encrypted,
+        providerUri: client.providerUri,
+        providerAddress: endpoints.providerAddress
+      }
+    })
+  }
+
+  private async getCandidates(
+    options: ProviderPoolRequestOptions
+  ): Promise<ProviderClient[]> {
+    // providers never checked, or unhealthy for longer than the cooldown
+    const now = Date.now()
+    const due = this.providerUris.filter((providerUri) => {
+      const health = this.health[providerUri]
+      return (
+        !health || (!health.healthy && now - health.checkedAt >= this.options.cooldown)
+      )
+    })
+    if (due.length > 0) {
+      await Promise.all(due.map((providerUri) => this.checkProvider(providerUri)))
+    }
+    const address = options.providerAddress?.toLowerCase()
+    const candidates = this.getHealth().filter(
+      (health) =>
+        health.healthy && (!address || health.providerAddress?.toLowerCase() === address)
+    )
+    if (candidates.length === 0) {
+      const uris = this.providerUris.join(', ')
+      throw new ProviderUnavailableError(
+        address
+          ? `No healthy provider with address ${options.providerAddress} in ${uris}`
+          : `No healthy provider in ${uris}`,
+        { endpoint: uris }
+      )
+    }
+    return candidates.map((health) => this.clients[health.providerUri])
+  }
+
+  private checkProvider(providerUri: string): Promise<ProviderHealth> {
+    if (!this.checks[providerUri]) {
+      this.checks[providerUri] = this.runCheck(providerUri).finally(() => {
+        delete this.checks[providerUri]
+      })
+    }
+    return this.checks[providerUri]
+  }
+
+  private async runCheck(providerUri: string): Promise<ProviderHealth> {
+    const client = this.clients[providerUri]
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), this.options.timeout)
+    const started = Date.now()
+    let health: ProviderHealth
+    try {
+      const valid = await client.isValidProvider(controller.signal)
+      const latency = Date.now() - started
+      if (!valid) {
+        health = this.unhealthy(providerUri, 'Provider endpoints could not be discovered')
+      } else {
+        const endpoints = await client.getEndpoints()
+        const missingServices = this.options.requiredServices.filter(
+          (service) => !endpoints.serviceEndpoints?.[service]
+        )
+        health = {
+          providerUri,
+          healthy: missingServices.length === 0,
+          latency,
+          providerAddress: endpoints.providerAddress,
+          missingServices,
+          checkedAt: Date.now(),
+          error:
+            missingServices.length > 0
+              ? `Missing services: ${missingServices.join(', ')}`
+              : undefined
+        }
+      }
+    } finally {
+      clearTimeout(timer)
+    }
+    if (this.health[providerUri]?.healthy && !health.healthy) {
+      LoggerInstance.warn(`Provider ${providerUri} became unhealthy: ${health.error}`)
+    }
+    this.health[providerUri] = health
+    return health
+  }
+
+  private unhealthy(providerUri: string, error: string): ProviderHealth {
+    return {
+      providerUri,
+      healthy: false,
+      latency: null,
+      providerAddress: this.health[providerUri]?.providerAddress || null,
+      missingServices: [],
+      checkedAt: Date.now(),
+      error
+    }
+  }
+
+  private markUnhealthy(providerUri: string, error: string) {
+    this.health[providerUri] = this.unhealthy(providerUri, error)
+    this.clients[providerUri].invalidateEndpoints()
+  }
+
+  private rank(health: ProviderHealth[]): ProviderHealth[] {
+    const latency = (h: ProviderHealth) => h.latency ?? Number.MAX_SAFE_INTEGER
+    return [...health].sort((a, b) => {
+      if (a.healthy !== b.healthy) return a.healthy ? -1 : 1
+      return latency(a) - latency(b)
+    })
+  }
+}
@@ -1 +1,6 @@
 export * from './Provider'
+export * from './ProviderClient'
+export * from './ComputeEnvironmentSelector'
+export * from './ComputeJobWatcher'
+export * from './ProviderPool'
+export * from './NonceManager'
@@ -12,7 +12,8 @@ import {
   getFreOrderParams,
   estimateGas,
   ZERO_ADDRESS,
-  ConfigHelper
+  ConfigHelper,
+  assertValidProviderFees
 } from '../utils'
 import {
   ConsumeMarketFee,
@@ -884,6 +885,7 @@ export class Datatoken {
    * @param {Number} serviceIndex  Service index in the metadata
    * @param {providerFees} providerFees provider fees
    * @param {consumeMarketFee} ConsumeMarketFee consume market fees
+   * @param {boolean} verifyProviderFees check the provider fees signature and validity before sending the transaction
    * @return {Promise<TransactionReceipt>} string
    */
   public async startOrder(
@@ -892,8 +894,10 @@ export class Datatoken {
     consumer: string,
     serviceIndex: number,
     providerFees: ProviderFees,
-    consumeMarketFee?: ConsumeMarketFee
+    consumeMarketFee?: ConsumeMarketFee,
+    verifyProviderFees: boolean = true
   ): Promise<TransactionReceipt> {
+    if (verifyProviderFees) await assertValidProviderFees(this.web3, providerFees)
     const dtContract = setContractDefaults(
       new this.web3.eth.Contract(this.datatokensAbi, dtAddress),
       this.config
@@ -961,14 +965,17 @@ export class Datatoken {
    * @param {String} address User address which calls
    * @param {String} orderTxId previous valid order
    * @param {providerFees} providerFees provider fees
+   * @param {boolean} verifyProviderFees check the provider fees signature and validity before sending the transaction
    * @return {Promise<TransactionReceipt>} string
    */
   public async reuseOrder(
     dtAddress: string,
     address: string,
     orderTxId: string,
-    providerFees: ProviderFees
+    providerFees: ProviderFees,
+    verifyProviderFees: boolean = true
   ): Promise<TransactionReceipt> {
+    if (verifyProviderFees) await assertValidProviderFees(this.web3, providerFees)
     const dtContract = setContractDefaults(
       new this.web3.eth.Contract(this.datatokensAbi, dtAddress),
       this.config
@@ -0,0 +1,128 @@
+import Web3 from 'web3'
+import { AbiItem } from 'web3-utils'
+import defaultDatatokensAbi from '@oceanprotocol/contracts/artifacts/contracts/templates/ERC20Template.sol/ERC20Template.json'
+import { Asset, Consumability, ConsumabilityIssue, ConsumabilityReason } from '../@types'
+import { CredentialsEvaluation, CredentialsPolicy } from './CredentialsPolicy'
+import LoggerInstance from './Logger'
+
+// states of the data NFT, see setMetadataState
+const NFT_STATE_ACTIVE = 0
+const NFT_STATE_ORDERING_DISABLED = 4
+const NFT_STATE_UNLISTED = 5
+
+const NFT_STATE_NAMES: { [state: number]: string } = {
+  1: 'end-of-life',
+  2: 'deprecated',
+  3: 'revoked by the publisher'
+}
+
+const CREDENTIALS_REASONS: Record<CredentialsEvaluation['reason'], ConsumabilityReason> =
+  {
+    denied: 'address-denied',
+    'not-allowed': 'address-not-allowed',
+    'unsupported-type': 'unsupported-credential-type'
+  }
+
+export interface ConsumabilityOptions {
+  /**
+   * Used to check that the datatoken has a pricing source, skipped when not set.
+   * @type {Web3}
+   */
+  web3?: Web3
+
+  /**
+   * Policy evaluating the asset credentials, defaults to address credentials only.
+   * @type {CredentialsPolicy}
+   */
+  credentialsPolicy?: CredentialsPolicy
+}
+
+async function hasPricing(web3: Web3, datatokenAddress: string): Promise<boolean> {
+  const datatoken = new web3.eth.Contract(
+    defaultDatatokensAbi.abi as AbiItem[],
+    datatokenAddress
+  )
+  const [fixedRates, dispensers, pools] = await Promise.all([
+    datatoken.methods.getFixedRates().call(),
+    datatoken.methods.getDispensers().call(),
+    datatoken.methods.getPools().call()
+  ])
+  return fixedRates.length > 0 || dispensers.length > 0 || pools.length > 0
+}
+
+/**
+ * Checks whether a consumer can order a service of an asset
+ * @param {Asset} asset asset as resolved from Aquarius
+ * @param {string} consumerAddress address of the consumer
+ * @param {string} serviceId id of the service to order
+ * @param {ConsumabilityOptions} options pass web3 to also check the pricing
+ * @return {Promise<Consumability>} verdict with every reason it is not consumable
+ */
+export async function getConsumability(
+  asset: Asset,
+  consumerAddress: string,
+  serviceId: string,
+  options: ConsumabilityOptions = {}
+): Promise<Consumability> {
+  const issues: ConsumabilityIssue[] = []
+  const state: number = asset.nft?.state ?? NFT_STATE_ACTIVE
+  if (state === NFT_STATE_ORDERING_DISABLED) {
+    issues.push({
+      reason: 'ordering-disabled',
+      message: 'Ordering is temporarily disabled by the publisher'
+    })
+  } else if (state !== NFT_STATE_ACTIVE && state !== NFT_STATE_UNLISTED) {
+    issues.push({
+      reason: 'nft-not-active',
+      message: `The asset is ${NFT_STATE_NAMES[state] || `in state ${state}`}`
+    })
+  }
+
+  if (asset.purgatory?.state) {
+    issues.push({
+      reason: 'purgatory',
+      message: `The asset is in purgatory: ${asset.purgatory.reason}`
+    })
+  }
+
+  const policy = options.credentialsPolicy || new CredentialsPolicy()
+  const evaluation = policy.evaluate(asset.credentials, { address: consumerAddress })
+  if (!evaluation.allowed) {
+    issues.push({
+      reason: CREDENTIALS_REASONS[evaluation.reason],
+      message: evaluation.message
+    })
+  }
+
+  const service = asset.services?.find((s) => s.id === serviceId) || null
+  let pricing: boolean
+  if (!service) {
+    issues.push({
+      reason: 'service-not-found',
+      message: `The asset has no service ${serviceId}`
+    })
+  } else if (options.web3) {
+    try {
+      pricing = await hasPricing(options.web3, service.datatokenAddress)
+    } catch (e) {
+      LoggerInstance.warn(
+        `Could not read the pricing of datatoken ${service.datatokenAddress}:`,
+        e.message
+      )
+    }
+    if (pricing === false) {
+      issues.push({
+        reason: 'no-pricing',
+        message: 'The datatoken has no fixed rate, dispenser or pool'
+      })
+    }
+  }
+
+  return {
+    consumable: issues.length === 0,
+    issues,
+    service,
+    timeout: service ? service.timeout : null,
+    hasPricing: pricing
+  }
+}
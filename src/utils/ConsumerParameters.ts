@@ -0,0 +1,189 @@
+import {
+  ComputeAlgorithm,
+  ComputeAsset,
+  ConsumerParameter,
+  ValidationIssue
+} from '../@types'
+
+/**
+ * Consumer parameters the data of a compute job is checked against.
+ */
+export interface ComputeConsumerParameters {
+  /**
+   * Consumer parameters of the dataset services, by dataset DID. The `userdata`
+   * of every ComputeAsset is checked against them.
+   * @type {{ [documentId: string]: ConsumerParameter[] }}
+   */
+  datasets?: { [documentId: string]: ConsumerParameter[] }
+
+  /**
+   * Consumer parameters of the algorithm metadata, `algocustomdata` is checked
+   * against them. Defaults to those of `algorithm.meta` for raw algorithms.
+   * @type {ConsumerParameter[]}
+   */
+  algorithm?: ConsumerParameter[]
+
+  /**
+   * Consumer parameters of the algorithm service, the algorithm `userdata` is
+   * checked against them.
+   * @type {ConsumerParameter[]}
+   */
+  algorithmService?: ConsumerParameter[]
+}
+
+/**
+ * Thrown when userdata does not match the consumer parameters of a service or algorithm.
+ */
+export class InvalidConsumerParametersError extends Error {
+  public issues: ValidationIssue[]
+
+  constructor(issues: ValidationIssue[]) {
+    super(
+      `Invalid consumer parameters: ${issues
+        .map((issue) => `${issue.path} ${issue.message}`)
+        .join(', ')}`
+    )
+    Object.setPrototypeOf(this, new.target.prototype)
+    this.name = 'InvalidConsumerParametersError'
+    this.issues = issues
+  }
+}
+
+function isEmpty(value: any): boolean {
+  return value === undefined || value === null || value === ''
+}
+
+function validateValue(parameter: ConsumerParameter, value: any): string {
+  switch (parameter.type) {
+    case 'text':
+      return typeof value === 'string' ? null : 'must be a text'
+    case 'number':
+      // values typed in forms arrive as strings
+      return typeof value !== 'boolean' && value !== '' && !isNaN(Number(value))
+        ? null
+        : 'must be a number'
+    case 'boolean':
+      return typeof value === 'boolean' || value === 'true' || value === 'false'
+        ? null
+        : 'must be true or false'
+    case 'select': {
+      const allowed = (parameter.options || []).reduce(
+        (keys, option) => keys.concat(Object.keys(option)),
+        [] as string[]
+      )
+      return allowed.includes(String(value))
+        ? null
+        : `must be one of ${allowed.join(', ')}`
+    }
+    default:
+      return `has an unknown parameter type ${(parameter as any).type}`
+  }
+}
+
+/**
+ * Returns the userdata completed with the defaults of the parameters the consumer left out
+ * @param {ConsumerParameter[]} parameters consumer parameters of a service or algorithm
+ * @param {{ [key: string]: any }} userdata values supplied by the consumer
+ * @return {{ [key: string]: any }}
+ */
+export function applyConsumerParameterDefaults(
+  parameters: ConsumerParameter[],
+  userdata: { [key: string]: any } = {}
+): { [key: string]: any } {
+  const result = { ...userdata }
+  for (const parameter of parameters || []) {
+    if (isEmpty(result[parameter.name]) && !isEmpty(parameter.default)) {
+      result[parameter.name] = parameter.default
+    }
+  }
+  return result
+}
+
+/**
+ * Checks userdata against consumer parameters. Missing values of parameters with a
+ * default are accepted, the provider applies the default.
+ * @param {ConsumerParameter[]} parameters consumer parameters of a service or algorithm
+ * @param {{ [key: string]: any }} userdata values supplied by the consumer
+ * @return {ValidationIssue[]} one issue per invalid field, the path is the parameter name
+ */
+export function validateConsumerParameters(
+  parameters: ConsumerParameter[],
+  userdata: { [key: string]: any } = {}
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+  for (const parameter of parameters || []) {
+    const value = userdata?.[parameter.name]
+    if (isEmpty(value)) {
+      if (parameter.required && isEmpty(parameter.default)) {
+        issues.push({ path: parameter.name, message: 'is required' })
+      }
+      continue
+    }
+    const message = validateValue(parameter, value)
+    if (message) issues.push({ path: parameter.name, message })
+  }
+  return issues
+}
+
+/**
+ * Same as validateConsumerParameters, but throws when the userdata is not valid
+ * @param {ConsumerParameter[]} parameters consumer parameters of a service or algorithm
+ * @param {{ [key: string]: any }} userdata values supplied by the consumer
+ * @return {void}
+ */
+export function assertValidConsumerParameters(
+  parameters: ConsumerParameter[],
+  userdata: { [key: string]: any } = {}
+) {
+  const issues = validateConsumerParameters(parameters, userdata)
+  if (issues.length > 0) throw new InvalidConsumerParametersError(issues)
+}
+
+function prefixIssues(issues: ValidationIssue[], prefix: string): ValidationIssue[] {
+  return issues.map((issue) => ({ ...issue, path: `${prefix}.${issue.path}` }))
+}
+
+/**
+ * Checks the userdata and algocustomdata of a compute job, throws when they are not valid
+ * @param {ComputeAsset[]} datasets datasets of the job
+ * @param {ComputeAlgorithm} algorithm algorithm of the job
+ * @param {ComputeConsumerParameters} parameters consumer parameters to check against
+ * @return {void}
+ */
+export function assertValidComputeConsumerParameters(
+  datasets: ComputeAsset[],
+  algorithm: ComputeAlgorithm,
+  parameters: ComputeConsumerParameters = {}
+) {
+  let issues: ValidationIssue[] = []
+  datasets.forEach((dataset, index) => {
+    const datasetParameters = parameters.datasets?.[dataset.documentId]
+    if (!datasetParameters) return
+    issues = issues.concat(
+      prefixIssues(
+        validateConsumerParameters(datasetParameters, dataset.userdata),
+        `datasets[${index}].userdata`
+      )
+    )
+  })
+  if (algorithm) {
+    const algorithmParameters = parameters.algorithm || algorithm.meta?.consumerParameters
+    if (algorithmParameters) {
+      issues = issues.concat(
+        prefixIssues(
+          validateConsumerParameters(algorithmParameters, algorithm.algocustomdata),
+          'algorithm.algocustomdata'
+        )
+      )
+    }
+    if (parameters.algorithmService) {
+      issues = issues.concat(
+        prefixIssues(
+          validateConsumerParameters(parameters.algorithmService, algorithm.userdata),
+          'algorithm.userdata'
+        )
+      )
+    }
+  }
+  if (issues.length > 0) throw new InvalidConsumerParametersError(issues)
+}
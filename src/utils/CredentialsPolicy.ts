@@ -0,0 +1,285 @@
+import Web3 from 'web3'
+import { Credential, Credentials, DDO } from '../@types'
+
+export type CredentialsList = keyof Credentials
+
+/**
+ * A kind of credential the policy can evaluate, identified by the credential type.
+ */
+export interface CredentialType {
+  type: string
+
+  /**
+   * Canonical form of a value, used when editing and comparing. Throws when the
+   * value is not valid for the type.
+   * @type {(value: string) => string}
+   */
+  normalize: (value: string) => string
+
+  /**
+   * Whether a credential value matches the normalized value of the subject,
+   * defaults to equality.
+   * @type {(value: string, subject: string) => boolean}
+   */
+  matches?: (value: string, subject: string) => boolean
+}
+
+/**
+ * Values a subject presents, by credential type, e.g. `{ address: '0x...' }`.
+ */
+export interface CredentialSubject {
+  [type: string]: string
+}
+
+export interface CredentialsEvaluation {
+  allowed: boolean
+
+  /**
+   * Why the subject is rejected, matched by a deny entry, missing from an allow list,
+   * or facing an allow list of a credential type the policy can not evaluate.
+   * @type {'denied' | 'not-allowed' | 'unsupported-type'}
+   */
+  reason?: 'denied' | 'not-allowed' | 'unsupported-type'
+
+  /**
+   * Credential type that rejected the subject.
+   * @type {string}
+   */
+  type?: string
+
+  message?: string
+}
+
+export const addressCredential: CredentialType = {
+  type: 'address',
+  normalize: (value: string) => {
+    // lowercased first, a checksum in published values is not enforced
+    const address = value.trim().toLowerCase()
+    if (!Web3.utils.isAddress(address)) {
+      throw new Error(`${value} is not a valid address`)
+    }
+    return address
+  }
+}
+
+/**
+ * Evaluates and edits the allow and deny lists of DDO credentials. A subject is
+ * rejected when any deny entry matches it, or when an allow list has entries of a
+ * type and none of them matches. Allow entries of unknown types reject everyone.
+ */
+export class CredentialsPolicy {
+  private types: { [type: string]: CredentialType } = {}
+
+  /**
+   * Instantiate CredentialsPolicy
+   * @param {CredentialType[]} types credential types to evaluate, defaults to address
+   */
+  constructor(types: CredentialType[] = [addressCredential]) {
+    types.forEach((type) => this.register(type))
+  }
+
+  /**
+   * Adds or replaces a credential type
+   * @param {CredentialType} type credential type
+   */
+  public register(type: CredentialType) {
+    this.types[type.type] = type
+  }
+
+  /**
+   * Checks whether a subject passes the credentials
+   * @param {Credentials} credentials credentials of a DDO, may be undefined
+   * @param {CredentialSubject} subject values of the subject by credential type
+   * @return {CredentialsEvaluation}
+   */
+  public evaluate(
+    credentials: Credentials,
+    subject: CredentialSubject
+  ): CredentialsEvaluation {
+    for (const credential of this.entries(credentials?.deny)) {
+      const value = this.subjectValue(credential.type, subject)
+      if (value !== undefined && this.matchesAny(credential, value)) {
+        return {
+          allowed: false,
+          reason: 'denied',
+          type: credential.type,
+          message: `${subject[credential.type]} is denied access`
+        }
+      }
+    }
+
+    const allowTypes = this.entries(credentials?.allow).reduce((types, credential) => {
+      if (!types.includes(credential.type)) types.push(credential.type)
+      return types
+    }, [] as string[])
+    for (const type of allowTypes) {
+      if (!this.types[type]) {
+        return {
+          allowed: false,
+          reason: 'unsupported-type',
+          type,
+          message: `Credential type ${type} is not supported`
+        }
+      }
+      const value = this.subjectValue(type, subject)
+      const allowed =
+        value !== undefined &&
+        this.entries(credentials.allow)
+          .filter((credential) => credential.type === type)
+          .some((credential) => this.matchesAny(credential, value))
+      if (!allowed) {
+        return {
+          allowed: false,
+          reason: 'not-allowed',
+          type,
+          message: `${
+            subject[type] ?? `A subject without ${type}`
+          } is not in the allow list`
+        }
+      }
+    }
+    return { allowed: true }
+  }
+
+  /**
+   * Returns the credentials with normalized values, merged entries per type and
+   * without duplicates or empty entries
+   * @param {Credentials} credentials credentials, may be undefined
+   * @return {Credentials}
+   */
+  public normalize(credentials: Credentials): Credentials {
+    return {
+      allow: this.normalizeList(credentials?.allow),
+      deny: this.normalizeList(credentials?.deny)
+    }
+  }
+
+  /**
+   * Adds values to a list of the DDO credentials
+   * @param {T} ddo DDO to edit, it is not modified
+   * @param {CredentialsList} list allow or deny
+   * @param {string} type credential type
+   * @param {string[]} values values to add
+   * @return {T} DDO with the updated credentials, ready to be republished
+   */
+  public add<T extends DDO>(
+    ddo: T,
+    list: CredentialsList,
+    type: string,
+    values: string[]
+  ): T {
+    const added = values.map((value) => this.normalizeValue(type, value))
+    const credentials = this.normalize(ddo.credentials)
+    credentials[list] = this.normalizeList(
+      credentials[list].concat([{ type, values: added }])
+    )
+    return { ...ddo, credentials }
+  }
+
+  /**
+   * Removes values from a list of the DDO credentials
+   * @param {T} ddo DDO to edit, it is not modified
+   * @param {CredentialsList} list allow or deny
+   * @param {string} type credential type
+   * @param {string[]} values values to remove, all values of the type when not set
+   * @return {T} DDO with the updated credentials, ready to be republished
+   */
+  public remove<T extends DDO>(
+    ddo: T,
+    list: CredentialsList,
+    type: string,
+    values?: string[]
+  ): T {
+    const credentials = this.normalize(ddo.credentials)
+    const removed = values
+      ? values.map((value) => this.normalizeValue(type, value, false))
+      : []
+    credentials[list] = credentials[list]
+      .map((credential) =>
+        credential.type !== type
+          ? credential
+          : {
+              type,
+              values: values
+                ? credential.values.filter((value) => !removed.includes(value))
+                : []
+            }
+      )
+      .filter((credential) => credential.values.length > 0)
+    return { ...ddo, credentials }
+  }
+
+  /**
+   * Replaces the values of a type in a list of the DDO credentials
+   * @param {T} ddo DDO to edit, it is not modified
+   * @param {CredentialsList} list allow or deny
+   * @param {string} type credential type
+   * @param {string[]} values new values, an empty array removes the type
+   * @return {T} DDO with the updated credentials, ready to be republished
+   */
+  public replace<T extends DDO>(
+    ddo: T,
+    list: CredentialsList,
+    type: string,
+    values: string[]
+  ): T {
+    return this.add(this.remove(ddo, list, type), list, type, values)
+  }
+
+  private entries(list: Credential[]): Credential[] {
+    return (list || []).filter((credential) => credential && credential.type)
+  }
+
+  private normalizeValue(type: string, value: string, strict = true): string {
+    const credentialType = this.types[type]
+    if (!credentialType) return value
+    try {
+      return credentialType.normalize(value)
+    } catch (e) {
+      // values already published are kept as they are, new ones must be valid
+      if (strict) throw e
+      return value
+    }
+  }
+
+  private normalizeList(list: Credential[]): Credential[] {
+    const types: string[] = []
+    const values: { [type: string]: string[] } = {}
+    for (const credential of this.entries(list)) {
+      if (!values[credential.type]) {
+        types.push(credential.type)
+        values[credential.type] = []
+      }
+      for (const value of credential.values || []) {
+        const normalized = this.normalizeValue(credential.type, value, false)
+        if (!values[credential.type].includes(normalized)) {
+          values[credential.type].push(normalized)
+        }
+      }
+    }
+    return types
+      .filter((type) => values[type].length > 0)
+      .map((type) => ({ type, values: values[type] }))
+  }
+
+  private subjectValue(type: string, subject: CredentialSubject): string {
+    const value = subject[type]
+    if (!this.types[type] || value === undefined || value === null) return undefined
+    try {
+      return this.types[type].normalize(value)
+    } catch {
+      return undefined
+    }
+  }
+
+  private matchesAny(credential: Credential, subjectValue: string): boolean {
+    const credentialType = this.types[credential.type]
+    if (!credentialType) return false
+    return (credential.values || []).some((value) => {
+      const normalized = this.normalizeValue(credential.type, value, false)
+      return credentialType.matches
+        ? credentialType.matches(normalized, subjectValue)
+        : normalized === subjectValue
+    })
+  }
+}
@@ -0,0 +1,396 @@
+import {
+  ConsumerParameter,
+  Credentials,
+  DDO,
+  Metadata,
+  MetadataAlgorithm,
+  Service,
+  ValidationIssue
+} from '../@types'
+import { generateDid } from './DdoHelpers'
+
+const ADDRESS = /^0x[0-9a-fA-F]{40}$/
+const DID = /^did:op:[0-9a-f]{64}$/
+const SEMVER = /^\d+\.\d+\.\d+$/
+// the rest of the date, fractions and time zone, is checked by Date.parse
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/
+const ASSET_TYPES = ['dataset', 'algorithm']
+const SERVICE_TYPES = ['access', 'compute']
+const CONSUMER_PARAMETER_TYPES = ['text', 'number', 'boolean', 'select']
+
+/**
+ * Thrown when a DDO does not match the schema Aquarius validates against.
+ */
+export class InvalidDdoError extends Error {
+  public issues: ValidationIssue[]
+
+  constructor(issues: ValidationIssue[]) {
+    super(
+      `Invalid DDO: ${issues.map((issue) => `${issue.path} ${issue.message}`).join(', ')}`
+    )
+    Object.setPrototypeOf(this, new.target.prototype)
+    this.name = 'InvalidDdoError'
+    this.issues = issues
+  }
+}
+
+function isObject(value: any): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function isNonEmptyString(value: any): boolean {
+  return typeof value === 'string' && value.trim().length > 0
+}
+
+function isIsoDate(value: any): boolean {
+  return typeof value === 'string' && ISO_DATE.test(value) && !isNaN(Date.parse(value))
+}
+
+function isHttpUrl(value: any): boolean {
+  if (typeof value !== 'string') return false
+  try {
+    const { protocol } = new URL(value)
+    return protocol === 'http:' || protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+function requireString(value: any, path: string, issues: ValidationIssue[]) {
+  if (!isNonEmptyString(value)) {
+    issues.push({ path, message: 'must be a non empty string' })
+  }
+}
+
+function optionalStringArray(value: any, path: string, issues: ValidationIssue[]) {
+  if (value === undefined) return
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+    issues.push({ path, message: 'must be an array of strings' })
+  }
+}
+
+function validateConsumerParameterDefinitions(
+  parameters: ConsumerParameter[],
+  path: string,
+  issues: ValidationIssue[]
+) {
+  if (parameters === undefined) return
+  if (!Array.isArray(parameters)) {
+    issues.push({ path, message: 'must be an array' })
+    return
+  }
+  const names: string[] = []
+  parameters.forEach((parameter, index) => {
+    const parameterPath = `${path}[${index}]`
+    if (!isObject(parameter)) {
+      issues.push({ path: parameterPath, message: 'must be an object' })
+      return
+    }
+    requireString(parameter.name, `${parameterPath}.name`, issues)
+    if (names.includes(parameter.name)) {
+      issues.push({ path: `${parameterPath}.name`, message: 'must be unique' })
+    }
+    names.push(parameter.name)
+    if (!CONSUMER_PARAMETER_TYPES.includes(parameter.type)) {
+      issues.push({
+        path: `${parameterPath}.type`,
+        message: `must be one of ${CONSUMER_PARAMETER_TYPES.join(', ')}`
+      })
+    }
+    requireString(parameter.label, `${parameterPath}.label`, issues)
+    if (typeof parameter.required !== 'boolean') {
+      issues.push({ path: `${parameterPath}.required`, message: 'must be a boolean' })
+    }
+    if (
+      parameter.type === 'select' &&
+      (!Array.isArray(parameter.options) || parameter.options.length === 0)
+    ) {
+      issues.push({
+        path: `${parameterPath}.options`,
+        message: 'must be a non empty array for select parameters'
+      })
+    }
+  })
+}
+
+/**
+ * Validates the algorithm section of the metadata
+ * @param {MetadataAlgorithm} algorithm algorithm section
+ * @param {string} path path of the section, used to prefix the reported issues
+ * @return {ValidationIssue[]} issues found, empty when the section is valid
+ */
+export function validateMetadataAlgorithm(
+  algorithm: MetadataAlgorithm,
+  path: string = 'metadata.algorithm'
+): ValidationIssue[] {
+  if (!isObject(algorithm)) return [{ path, message: 'must be an object' }]
+  const issues: ValidationIssue[] = []
+  if (algorithm.language !== undefined && typeof algorithm.language !== 'string') {
+    issues.push({ path: `${path}.language`, message: 'must be a string' })
+  }
+  if (algorithm.version !== undefined && typeof algorithm.version !== 'string') {
+    issues.push({ path: `${path}.version`, message: 'must be a string' })
+  }
+  const { container } = algorithm
+  if (!isObject(container)) {
+    issues.push({ path: `${path}.container`, message: 'must be an object' })
+  } else {
+    for (const field of ['entrypoint', 'image', 'tag', 'checksum']) {
+      requireString((container as any)[field], `${path}.container.${field}`, issues)
+    }
+  }
+  validateConsumerParameterDefinitions(
+    algorithm.consumerParameters,
+    `${path}.consumerParameters`,
+    issues
+  )
+  return issues
+}
+
+/**
+ * Validates the metadata of a DDO
+ * @param {Metadata} metadata metadata
+ * @param {string} path path of the metadata, used to prefix the reported issues
+ * @return {ValidationIssue[]} issues found, empty when the metadata is valid
+ */
+export function validateMetadata(
+  metadata: Metadata,
+  path: string = 'metadata'
+): ValidationIssue[] {
+  if (!isObject(metadata)) return [{ path, message: 'must be an object' }]
+  const issues: ValidationIssue[] = []
+  for (const field of ['created', 'updated']) {
+    if (!isIsoDate((metadata as any)[field])) {
+      issues.push({ path: `${path}.${field}`, message: 'must be an ISO 8601 date' })
+    }
+  }
+  for (const field of ['name', 'description', 'author', 'license']) {
+    requireString((metadata as any)[field], `${path}.${field}`, issues)
+  }
+  if (!ASSET_TYPES.includes(metadata.type)) {
+    issues.push({
+      path: `${path}.type`,
+      message: `must be one of ${ASSET_TYPES.join(', ')}`
+    })
+  }
+  optionalStringArray(metadata.links, `${path}.links`, issues)
+  optionalStringArray(metadata.tags, `${path}.tags`, issues)
+  optionalStringArray(metadata.categories, `${path}.categories`, issues)
+  if (metadata.type === 'algorithm') {
+    issues.push(...validateMetadataAlgorithm(metadata.algorithm, `${path}.algorithm`))
+  } else if (metadata.algorithm !== undefined) {
+    issues.push({ path: `${path}.algorithm`, message: 'is only allowed for algorithms' })
+  }
+  return issues
+}
+
+/**
+ * Validates a service of a DDO
+ * @param {Service} service service
+ * @param {string} path path of the service, used to prefix the reported issues
+ * @return {ValidationIssue[]} issues found, empty when the service is valid
+ */
+export function validateService(
+  service: Service,
+  path: string = 'service'
+): ValidationIssue[] {
+  if (!isObject(service)) return [{ path, message: 'must be an object' }]
+  const issues: ValidationIssue[] = []
+  requireString(service.id, `${path}.id`, issues)
+  if (!SERVICE_TYPES.includes(service.type)) {
+    issues.push({
+      path: `${path}.type`,
+      message: `must be one of ${SERVICE_TYPES.join(', ')}`
+    })
+  }
+  requireString(service.files, `${path}.files`, issues)
+  if (!ADDRESS.test(service.datatokenAddress || '')) {
+    issues.push({ path: `${path}.datatokenAddress`, message: 'must be an address' })
+  }
+  if (!isHttpUrl(service.serviceEndpoint)) {
+    issues.push({ path: `${path}.serviceEndpoint`, message: 'must be an http(s) url' })
+  }
+  if (!Number.isInteger(service.timeout) || service.timeout < 0) {
+    issues.push({ path: `${path}.timeout`, message: 'must be a non negative integer' })
+  }
+  if (service.type === 'compute') {
+    const { compute } = service
+    if (!isObject(compute)) {
+      issues.push({
+        path: `${path}.compute`,
+        message: 'must be an object for compute services'
+      })
+    } else {
+      for (const field of ['allowRawAlgorithm', 'allowNetworkAccess']) {
+        if (typeof (compute as any)[field] !== 'boolean') {
+          issues.push({ path: `${path}.compute.${field}`, message: 'must be a boolean' })
+        }
+      }
+      if (!Array.isArray(compute.publisherTrustedAlgorithmPublishers)) {
+        issues.push({
+          path: `${path}.compute.publisherTrustedAlgorithmPublishers`,
+          message: 'must be an array'
+        })
+      } else {
+        compute.publisherTrustedAlgorithmPublishers.forEach((publisher, index) => {
+          if (!ADDRESS.test(publisher || '')) {
+            issues.push({
+              path: `${path}.compute.publisherTrustedAlgorithmPublishers[${index}]`,
+              message: 'must be an address'
+            })
+          }
+        })
+      }
+      if (!Array.isArray(compute.publisherTrustedAlgorithms)) {
+        issues.push({
+          path: `${path}.compute.publisherTrustedAlgorithms`,
+          message: 'must be an array'
+        })
+      } else {
+        compute.publisherTrustedAlgorithms.forEach((algorithm, index) => {
+          const algorithmPath = `${path}.compute.publisherTrustedAlgorithms[${index}]`
+          if (!DID.test(algorithm?.did || '')) {
+            issues.push({ path: `${algorithmPath}.did`, message: 'must be a DID' })
+          }
+          requireString(
+            algorithm?.filesChecksum,
+            `${algorithmPath}.filesChecksum`,
+            issues
+          )
+          requireString(
+            algorithm?.containerSectionChecksum,
+            `${algorithmPath}.containerSectionChecksum`,
+            issues
+          )
+        })
+      }
+    }
+  }
+  validateConsumerParameterDefinitions(
+    service.consumerParameters,
+    `${path}.consumerParameters`,
+    issues
+  )
+  return issues
+}
+
+/**
+ * Validates the credentials of a DDO
+ * @param {Credentials} credentials allow and deny lists
+ * @param {string} path path of the credentials, used to prefix the reported issues
+ * @return {ValidationIssue[]} issues found, empty when the credentials are valid
+ */
+export function validateCredentials(
+  credentials: Credentials,
+  path: string = 'credentials'
+): ValidationIssue[] {
+  if (!isObject(credentials)) return [{ path, message: 'must be an object' }]
+  const issues: ValidationIssue[] = []
+  for (const list of ['allow', 'deny']) {
+    const entries = (credentials as any)[list]
+    if (entries === undefined) continue
+    if (!Array.isArray(entries)) {
+      issues.push({ path: `${path}.${list}`, message: 'must be an array' })
+      continue
+    }
+    entries.forEach((credential: any, index: number) => {
+      const credentialPath = `${path}.${list}[${index}]`
+      if (!isObject(credential)) {
+        issues.push({ path: credentialPath, message: 'must be an object' })
+        return
+      }
+      requireString(credential.type, `${credentialPath}.type`, issues)
+      if (
+        !Array.isArray(credential.values) ||
+        credential.values.some((value: any) => typeof value !== 'string')
+      ) {
+        issues.push({
+          path: `${credentialPath}.values`,
+          message: 'must be an array of strings'
+        })
+      }
+    })
+  }
+  return issues
+}
+
+/**
+ * Validates a DDO offline, with the rules Aquarius applies when it indexes it
+ * @param {DDO} ddo DID Descriptor Object, an Asset is accepted too
+ * @return {ValidationIssue[]} issues found, empty when the DDO is valid
+ */
+export function validateDdo(ddo: DDO): ValidationIssue[] {
+  if (!isObject(ddo)) return [{ path: '', message: 'must be an object' }]
+  const issues: ValidationIssue[] = []
+  const context = ddo['@context']
+  if (
+    !Array.isArray(context) ||
+    context.length === 0 ||
+    context.some((item) => typeof item !== 'string')
+  ) {
+    issues.push({ path: '@context', message: 'must be a non empty array of strings' })
+  }
+  if (typeof ddo.version !== 'string' || !SEMVER.test(ddo.version)) {
+    issues.push({ path: 'version', message: 'must be a version like 4.1.0' })
+  }
+  const validNft = ADDRESS.test(ddo.nftAddress || '')
+  if (!validNft) {
+    issues.push({ path: 'nftAddress', message: 'must be an address' })
+  }
+  const validChain = Number.isInteger(ddo.chainId) && ddo.chainId > 0
+  if (!validChain) {
+    issues.push({ path: 'chainId', message: 'must be a positive integer' })
+  }
+  if (!DID.test(ddo.id || '')) {
+    issues.push({ path: 'id', message: 'must be a DID like did:op:<64 hex characters>' })
+  } else if (
+    validNft &&
+    validChain &&
+    ddo.id !== generateDid(ddo.nftAddress, ddo.chainId)
+  ) {
+    issues.push({ path: 'id', message: 'does not match nftAddress and chainId' })
+  }
+
+  issues.push(...validateMetadata(ddo.metadata))
+
+  if (!Array.isArray(ddo.services) || ddo.services.length === 0) {
+    issues.push({ path: 'services', message: 'must be a non empty array' })
+  } else {
+    const ids: string[] = []
+    ddo.services.forEach((service, index) => {
+      const path = `services[${index}]`
+      issues.push(...validateService(service, path))
+      if (!isObject(service)) return
+      if (ids.includes(service.id)) {
+        issues.push({ path: `${path}.id`, message: 'must be unique' })
+      }
+      ids.push(service.id)
+    })
+    // assets returned by Aquarius also list the datatokens of their services
+    const assetDatatokens: any[] = (ddo as any).datatokens
+    if (Array.isArray(assetDatatokens)) {
+      assetDatatokens.forEach((datatoken, index) => {
+        const service = ddo.services.find((s) => s?.id === datatoken?.serviceId)
+        if (!service) {
+          issues.push({
+            path: `datatokens[${index}].serviceId`,
+            message: 'does not match a service'
+          })
+        } else if (
+          !ADDRESS.test(datatoken.address || '') ||
+          datatoken.address.toLowerCase() !== service.datatokenAddress?.toLowerCase()
+        ) {
+          issues.push({
+            path: `datatokens[${index}].address`,
+            message: `does not match the datatokenAddress of service ${service.id}`
+          })
+        }
+      })
+    }
+  }
+
+  if (ddo.credentials !== undefined) {
+    issues.push(...validateCredentials(ddo.credentials))
+  }
+  return issues
+}
@@ -0,0 +1,282 @@
+import fs from 'fs'
+import { createHash, Hash } from 'crypto'
+import { Readable } from 'stream'
+import fetch from 'cross-fetch'
+import LoggerInstance from './Logger'
+import { sleep } from './General'
+
+export interface DownloadProgress {
+  /**
+   * Bytes written to the destination so far, including resumed bytes.
+   * @type {number}
+   */
+  downloaded: number
+
+  /**
+   * Total size of the file, when the server reports it.
+   * @type {number}
+   */
+  total?: number
+}
+
+export interface StreamDownloadOptions {
+  /**
+   * Called every time a chunk was written.
+   */
+  onProgress?: (progress: DownloadProgress) => void
+
+  /**
+   * Expected checksum of the file, as reported by `FileInfo.checksum`.
+   * @type {string}
+   */
+  checksum?: string
+
+  /**
+   * Hash algorithm of the expected checksum, defaults to sha256.
+   * @type {string}
+   */
+  checksumType?: string
+
+  /**
+   * Continue a partial file found at the destination path instead of overwriting it.
+   * @type {boolean}
+   */
+  resume?: boolean
+
+  /**
+   * How many times an interrupted transfer is resumed, defaults to 3.
+   * @type {number}
+   */
+  maxRetries?: number
+
+  /**
+   * Time in ms without received data after which the transfer is considered
+   * interrupted, defaults to 30000.
+   * @type {number}
+   */
+  stallTimeout?: number
+
+  /**
+   * Delay in ms before resuming an interrupted transfer, defaults to 1000.
+   * @type {number}
+   */
+  retryDelay?: number
+
+  /**
+   * File index, used to name the file when the server does not send one.
+   * @type {number}
+   */
+  index?: number
+
+  /**
+   * Headers sent with every request, e.g. the provider auth token headers.
+   * @type {{ [key: string]: string }}
+   */
+  headers?: { [key: string]: string }
+
+  signal?: AbortSignal
+}
+
+export interface StreamDownloadResult {
+  filename: string
+  size: number
+  checksum: string
+  path?: string
+}
+
+function getFilename(response: Response, url: string, index?: number): string {
+  try {
+    return response.headers
+      .get('content-disposition')
+      .match(/attachment;\s*filename="?([^";]+)"?/)[1]
+  } catch {
+    try {
+      return url.split('?')[0].split('/').pop() || `file${index}`
+    } catch {
+      return `file${index}`
+    }
+  }
+}
+
+function getTotalSize(response: Response, offset: number): number {
+  const contentRange = response.headers.get('content-range')
+  const rangeTotal = contentRange && contentRange.match(/\/(\d+)$/)
+  if (rangeTotal) return parseInt(rangeTotal[1])
+  const contentLength = response.headers.get('content-length')
+  return contentLength ? parseInt(contentLength) + offset : undefined
+}
+
+async function hashFile(hash: Hash, path: string): Promise<void> {
+  await new Promise<void>((resolve, reject) => {
+    // eslint-disable-next-line security/detect-non-literal-fs-filename
+    fs.createReadStream(path)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('end', () => resolve())
+      .on('error', reject)
+  })
+}
+
+/**
+ * Streams a response body into the target, skipping the first `skip` bytes.
+ * Honors backpressure of the target stream and fails when no data arrives
+ * for `stallTimeout` ms, since a dropped connection does not always end the body.
+ */
+async function pumpBody(
+  body: Readable,
+  target: NodeJS.WritableStream,
+  skip: number,
+  stallTimeout: number,
+  onChunk: (chunk: Buffer) => void
+): Promise<void> {
+  let toSkip = skip
+  await new Promise<void>((resolve, reject) => {
+    let timer: ReturnType<typeof setTimeout>
+    const done = (error?: Error) => {
+      clearTimeout(timer)
+      target.removeListener('error', done)
+      body.removeAllListeners('data')
+      if (error) {
+        body.destroy()
+        reject(error)
+      } else resolve()
+    }
+    const watch = () => {
+      clearTimeout(timer)
+      timer = setTimeout(
+        () => done(new Error(`No data received for ${stallTimeout} ms`)),
+        stallTimeout
+      )
+    }
+    target.on('error', done)
+    body.on('data', (data: Buffer) => {
+      watch()
+      let chunk = data
+      if (toSkip > 0) {
+        const skipped = Math.min(toSkip, chunk.length)
+        toSkip -= skipped
+        chunk = chunk.subarray(skipped)
+        if (chunk.length === 0) return
+      }
+      onChunk(chunk)
+      if (!target.write(chunk)) {
+        clearTimeout(timer)
+        body.pause()
+        target.once('drain', () => {
+          watch()
+          body.resume()
+        })
+      }
+    })
+    body.on('end', () => done())
+    body.on('error', done)
+    watch()
+  })
+}
+
+/**
+ * Downloads a file as a stream, e.g. from the url returned by `Provider.getDownloadUrl`.
+ * Interrupted transfers are resumed with HTTP Range requests and, when a checksum
+ * is given, the downloaded data is checked against it.
+ * Streams passed as destination are not ended, file paths are created (or appended
+ * to when resuming) and closed.
+ * Signed provider urls can only be used once, pass a function signing a new url
+ * to resume them without auth tokens.
+ * @param {string | Function} url url of the file, or a function returning the url of every attempt
+ * @param {string | NodeJS.WritableStream} destination file path or writable stream
+ * @param {StreamDownloadOptions} options download options
+ * @return {Promise<StreamDownloadResult>}
+ */
+export async function downloadFileStream(
+  url: string | (() => Promise<string>),
+  destination: string | NodeJS.WritableStream,
+  options: StreamDownloadOptions = {}
+): Promise<StreamDownloadResult> {
+  const maxRetries = options.maxRetries ?? 3
+  const retryDelay = options.retryDelay ?? 1000
+  const hash = createHash(options.checksumType || 'sha256')
+  const path = typeof destination === 'string' ? destination : undefined
+
+  let downloaded = 0
+  // eslint-disable-next-line security/detect-non-literal-fs-filename
+  if (path && options.resume && fs.existsSync(path)) {
+    // eslint-disable-next-line security/detect-non-literal-fs-filename
+    downloaded = fs.statSync(path).size
+    await hashFile(hash, path)
+  }
+  const target =
+    typeof destination === 'string'
+      ? // eslint-disable-next-line security/detect-non-literal-fs-filename
+        fs.createWriteStream(destination, { flags: downloaded > 0 ? 'a' : 'w' })
+      : destination
+
+  let filename: string
+  let total: number
+  let attempt = 0
+  const waitBeforeRetry = async (error: Error) => {
+    if (error.name === 'AbortError' || attempt >= maxRetries) throw error
+    attempt++
+    LoggerInstance.warn(`Download interrupted at ${downloaded} bytes:`, error.message)
+    await sleep(retryDelay * attempt)
+  }
+
+  try {
+    for (;;) {
+      const headers: Record<string, string> = { ...options.headers }
+      if (downloaded > 0) headers.Range = `bytes=${downloaded}-`
+      let attemptUrl: string
+      let response: Response
+      try {
+        attemptUrl = typeof url === 'string' ? url : await url()
+        response = await fetch(attemptUrl, { headers, signal: options.signal })
+      } catch (e) {
+        await waitBeforeRetry(e)
+        continue
+      }
+      // the partial file found at the destination was already complete
+      if (response.status === 416 && downloaded > 0) break
+      if (!response.ok) throw new Error(`Download failed with status ${response.status}`)
+
+      const offset = response.status === 206 ? downloaded : 0
+      filename = filename || getFilename(response, attemptUrl, options.index)
+      total = getTotalSize(response, offset) ?? total
+      try {
+        await pumpBody(
+          response.body as unknown as Readable,
+          target,
+          downloaded - offset,
+          options.stallTimeout ?? 30000,
+          (chunk) => {
+            hash.update(chunk)
+            downloaded += chunk.length
+            if (options.onProgress) options.onProgress({ downloaded, total })
+          }
+        )
+      } catch (e) {
+        await waitBeforeRetry(e)
+        continue
+      }
+      if (total === undefined || downloaded >= total) break
+      await waitBeforeRetry(
+        new Error(`Transfer ended after ${downloaded} of ${total} bytes`)
+      )
+    }
+  } finally {
+    if (path) {
+      await new Promise((resolve) => (target as fs.WriteStream).end(resolve))
+    }
+  }
+
+  const checksum = hash.digest('hex')
+  if (options.checksum) {
+    const expected = options.checksum.toLowerCase().replace(/^0x/, '')
+    if (expected !== checksum) {
+      throw new Error(`Checksum mismatch: expected ${expected}, got ${checksum}`)
+    }
+  }
+  return {
+    filename: filename || (path && path.split(/[\\/]/).pop()),
+    size: downloaded,
+    checksum,
+    path
+  }
+}
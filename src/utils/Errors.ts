@@ -0,0 +1,284 @@
+const MAX_PAYLOAD_SUMMARY_LENGTH = 256
+// compared case-insensitively, with json keys and query string parameters
+const REDACTED_FIELDS = ['signature', 'authtoken', 'token', 'privatekey']
+
+export interface HttpErrorDetails {
+  /**
+   * HTTP status code, undefined when no response was received.
+   * @type {number}
+   */
+  status?: number
+
+  /**
+   * Url of the called endpoint, without query string.
+   * @type {string}
+   */
+  endpoint: string
+
+  /**
+   * HTTP method used.
+   * @type {string}
+   */
+  method?: string
+
+  /**
+   * Short summary of the sent payload, signatures are redacted.
+   * @type {string}
+   */
+  payload?: string
+
+  /**
+   * Error body returned by the server, parsed as json when possible.
+   * @type {any}
+   */
+  body?: any
+}
+
+/**
+ * Base class for failed HTTP calls to Ocean services.
+ */
+export class OceanHttpError extends Error {
+  public status?: number
+  public endpoint: string
+  public method?: string
+  public payload?: string
+  public body?: any
+
+  constructor(message: string, details: HttpErrorDetails) {
+    super(message)
+    Object.setPrototypeOf(this, new.target.prototype)
+    this.name = 'OceanHttpError'
+    this.status = details.status
+    this.endpoint = details.endpoint
+    this.method = details.method
+    this.payload = details.payload
+    this.body = details.body
+  }
+}
+
+/**
+ * A call to Provider failed.
+ */
+export class ProviderHttpError extends OceanHttpError {
+  constructor(message: string, details: HttpErrorDetails) {
+    super(message, details)
+    this.name = 'ProviderHttpError'
+  }
+}
+
+/**
+ * Provider could not be reached or answered with a gateway error.
+ */
+export class ProviderUnavailableError extends ProviderHttpError {
+  constructor(message: string, details: HttpErrorDetails) {
+    super(message, details)
+    this.name = 'ProviderUnavailableError'
+  }
+}
+
+/**
+ * Provider does not expose the requested service endpoint.
+ */
+export class EndpointNotFoundError extends ProviderHttpError {
+  constructor(message: string, details: HttpErrorDetails) {
+    super(message, details)
+    this.name = 'EndpointNotFoundError'
+  }
+}
+
+/**
+ * Provider rejected the signature (or nonce) of a signed request.
+ */
+export class InvalidSignatureError extends ProviderHttpError {
+  constructor(message: string, details: HttpErrorDetails) {
+    super(message, details)
+    this.name = 'InvalidSignatureError'
+  }
+}
+
+/**
+ * Provider could not validate the order transaction of a request.
+ */
+export class InvalidOrderError extends ProviderHttpError {
+  constructor(message: string, details: HttpErrorDetails) {
+    super(message, details)
+    this.name = 'InvalidOrderError'
+  }
+}
+
+/**
+ * Provider does not know the requested asset.
+ */
+export class ProviderAssetNotFoundError extends ProviderHttpError {
+  constructor(message: string, details: HttpErrorDetails) {
+    super(message, details)
+    this.name = 'ProviderAssetNotFoundError'
+  }
+}
+
+/**
+ * A call to Aquarius failed.
+ */
+export class AquariusHttpError extends OceanHttpError {
+  constructor(message: string, details: HttpErrorDetails) {
+    super(message, details)
+    this.name = 'AquariusHttpError'
+  }
+}
+
+/**
+ * The requested asset is unknown to Aquarius.
+ */
+export class AssetNotFoundError extends AquariusHttpError {
+  constructor(message: string, details: HttpErrorDetails) {
+    super(message, details)
+    this.name = 'AssetNotFoundError'
+  }
+}
+
+function isRedacted(key: string): boolean {
+  return REDACTED_FIELDS.includes(key.toLowerCase())
+}
+
+function redactQuery(query: string): string {
+  return query
+    .split('&')
+    .map((param) => {
+      const [key] = param.split('=')
+      return isRedacted(key.replace(/^\?/, '')) ? `${key}=[redacted]` : param
+    })
+    .join('&')
+}
+
+/**
+ * Returns a short summary of a request payload, json or query string, with
+ * signatures and tokens redacted
+ * @param {any} payload request payload
+ * @return {string}
+ */
+export function summarizePayload(payload: any): string {
+  if (payload === undefined || payload === null) return undefined
+  let summary: string
+  try {
+    summary = JSON.stringify(
+      typeof payload === 'string' ? JSON.parse(payload) : payload,
+      (key, value) => (isRedacted(key) ? '[redacted]' : value)
+    )
+  } catch (e) {
+    // query strings of GET requests carry signatures and tokens too
+    summary = typeof payload === 'string' ? redactQuery(payload) : String(payload)
+  }
+  return summary.length > MAX_PAYLOAD_SUMMARY_LENGTH
+    ? summary.slice(0, MAX_PAYLOAD_SUMMARY_LENGTH) + '...'
+    : summary
+}
+
+/**
+ * Reads the body of a failed response, as json when possible
+ * @param {Response} response failed response
+ * @return {Promise<any>}
+ */
+export async function readErrorBody(response: Response): Promise<any> {
+  let text: string
+  try {
+    text = await response.text()
+  } catch (e) {
+    return undefined
+  }
+  try {
+    return JSON.parse(text)
+  } catch (e) {
+    return text
+  }
+}
+
+function getServerMessage(body: any, response: Response): string {
+  if (body && typeof body === 'object') {
+    const message = body.error || body.message || body.errors
+    if (message) return typeof message === 'string' ? message : JSON.stringify(message)
+  }
+  if (typeof body === 'string' && body.length > 0) return body
+  return response.statusText
+}
+
+function stripQuery(url: string): string {
+  return url ? url.split('?')[0] : url
+}
+
+/**
+ * Builds the typed error for a failed Provider response
+ * @param {Response} response failed response
+ * @param {string} url called url
+ * @param {string} method HTTP method used
+ * @param {any} payload sent payload
+ * @return {Promise<ProviderHttpError>}
+ */
+export async function createProviderError(
+  response: Response,
+  url: string,
+  method: string,
+  payload?: any
+): Promise<ProviderHttpError> {
+  const body = await readErrorBody(response)
+  const serverMessage = getServerMessage(body, response)
+  const details: HttpErrorDetails = {
+    status: response.status,
+    endpoint: stripQuery(url),
+    method,
+    payload: summarizePayload(payload),
+    body
+  }
+  const message = `Provider ${method} ${details.endpoint} failed with status ${response.status}: ${serverMessage}`
+  const { status } = response
+
+  if (status === 401) return new InvalidSignatureError(message, details)
+  if (status === 404) {
+    return /did|asset|ddo/i.test(serverMessage) && typeof body === 'object'
+      ? new ProviderAssetNotFoundError(message, details)
+      : new EndpointNotFoundError(message, details)
+  }
+  if ([502, 503, 504].includes(status)) {
+    return new ProviderUnavailableError(message, details)
+  }
+  // provider answers most rejected requests with 400 or 403, the message tells why
+  if (status === 400 || status === 403) {
+    if (/signature|nonce/i.test(serverMessage)) {
+      return new InvalidSignatureError(message, details)
+    }
+    if (/order|transfer|transaction|tx_?id/i.test(serverMessage)) {
+      return new InvalidOrderError(message, details)
+    }
+  }
+  return new ProviderHttpError(message, details)
+}
+
+/**
+ * Builds the typed error for a failed Aquarius response
+ * @param {Response} response failed response
+ * @param {string} url called url
+ * @param {string} method HTTP method used
+ * @param {any} payload sent payload
+ * @return {Promise<AquariusHttpError | AssetNotFoundError>}
+ */
+export async function createAquariusError(
+  response: Response,
+  url: string,
+  method: string,
+  payload?: any
+): Promise<AquariusHttpError | AssetNotFoundError> {
+  const body = await readErrorBody(response)
+  const details: HttpErrorDetails = {
+    status: response.status,
+    endpoint: stripQuery(url),
+    method,
+    payload: summarizePayload(payload),
+    body
+  }
+  const message = `Aquarius ${method} ${details.endpoint} failed with status ${
+    response.status
+  }: ${getServerMessage(body, response)}`
+
+  return response.status === 404
+    ? new AssetNotFoundError(message, details)
+    : new AquariusHttpError(message, details)
+}
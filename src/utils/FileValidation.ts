@@ -0,0 +1,210 @@
+import {
+  ArweaveFile,
+  Files,
+  GraphqlQuery,
+  IpfsFile,
+  SmartContractCall,
+  StorageObject,
+  UrlFile,
+  ValidationIssue
+} from '../@types'
+
+const HTTP_METHODS = ['GET', 'POST']
+// CIDv0 (base58 sha256 multihash) or CIDv1 in its default base32 encoding
+const IPFS_CID = /^(Qm[1-9A-HJ-NP-Za-km-z]{44}|b[a-z2-7]{58,})$/
+const ARWEAVE_TX_ID = /^[a-zA-Z0-9_-]{43}$/
+const ADDRESS = /^0x[0-9a-fA-F]{40}$/
+
+/**
+ * Thrown when files do not match the shape expected by the provider.
+ */
+export class InvalidFilesError extends Error {
+  public issues: ValidationIssue[]
+
+  constructor(issues: ValidationIssue[]) {
+    super(
+      `Invalid files: ${issues
+        .map((issue) => `${issue.path} ${issue.message}`)
+        .join(', ')}`
+    )
+    Object.setPrototypeOf(this, new.target.prototype)
+    this.name = 'InvalidFilesError'
+    this.issues = issues
+  }
+}
+
+function isHttpUrl(value: any): boolean {
+  if (typeof value !== 'string') return false
+  try {
+    const { protocol } = new URL(value)
+    return protocol === 'http:' || protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+function isNonEmptyString(value: any): boolean {
+  return typeof value === 'string' && value.trim().length > 0
+}
+
+function validateHeaders(headers: any, path: string, issues: ValidationIssue[]) {
+  if (headers === undefined) return
+  if (
+    typeof headers !== 'object' ||
+    headers === null ||
+    Object.values(headers).some((value) => typeof value !== 'string')
+  ) {
+    issues.push({ path: `${path}.headers`, message: 'must map header names to strings' })
+  }
+}
+
+function validateUrlFile(file: UrlFile, path: string, issues: ValidationIssue[]) {
+  if (!isHttpUrl(file.url)) {
+    issues.push({ path: `${path}.url`, message: 'must be an http(s) url' })
+  }
+  if (
+    typeof file.method !== 'string' ||
+    !HTTP_METHODS.includes(file.method.toUpperCase())
+  ) {
+    issues.push({
+      path: `${path}.method`,
+      message: `must be one of ${HTTP_METHODS.join(', ')}`
+    })
+  }
+  validateHeaders(file.headers, path, issues)
+}
+
+function validateIpfsFile(file: IpfsFile, path: string, issues: ValidationIssue[]) {
+  if (typeof file.hash !== 'string' || !IPFS_CID.test(file.hash)) {
+    issues.push({ path: `${path}.hash`, message: 'must be an IPFS CID' })
+  }
+}
+
+function validateArweaveFile(file: ArweaveFile, path: string, issues: ValidationIssue[]) {
+  if (typeof file.transactionId !== 'string' || !ARWEAVE_TX_ID.test(file.transactionId)) {
+    issues.push({
+      path: `${path}.transactionId`,
+      message: 'must be an Arweave transaction id'
+    })
+  }
+}
+
+function validateGraphqlQuery(
+  file: GraphqlQuery,
+  path: string,
+  issues: ValidationIssue[]
+) {
+  if (!isHttpUrl(file.url)) {
+    issues.push({ path: `${path}.url`, message: 'must be an http(s) url' })
+  }
+  if (!isNonEmptyString(file.query)) {
+    issues.push({ path: `${path}.query`, message: 'must be a non empty string' })
+  }
+  validateHeaders(file.headers, path, issues)
+}
+
+function validateSmartContractCall(
+  file: SmartContractCall,
+  path: string,
+  issues: ValidationIssue[]
+) {
+  if (!Number.isInteger(file.chainId) || file.chainId <= 0) {
+    issues.push({ path: `${path}.chainId`, message: 'must be a positive integer' })
+  }
+  if (typeof file.address !== 'string' || !ADDRESS.test(file.address)) {
+    issues.push({ path: `${path}.address`, message: 'must be a contract address' })
+  }
+  const { abi } = file
+  if (!abi || typeof abi !== 'object') {
+    issues.push({ path: `${path}.abi`, message: 'must be an ABI item' })
+    return
+  }
+  if (abi.type !== 'function' || !isNonEmptyString(abi.name)) {
+    issues.push({ path: `${path}.abi`, message: 'must describe a named function' })
+  }
+  if (abi.stateMutability !== 'view' && abi.stateMutability !== 'pure') {
+    issues.push({
+      path: `${path}.abi.stateMutability`,
+      message: 'must be view or pure, the provider only calls read-only functions'
+    })
+  }
+}
+
+/**
+ * Validates a single file descriptor against the rules of its type
+ * @param {StorageObject} file file descriptor
+ * @param {string} path path of the file, used to prefix the reported issues
+ * @return {ValidationIssue[]} issues found, empty when the file is valid
+ */
+export function validateStorageObject(
+  file: StorageObject,
+  path: string = 'file'
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+  if (!file || typeof file !== 'object') {
+    return [{ path, message: 'must be an object' }]
+  }
+  if (file.index !== undefined && (!Number.isInteger(file.index) || file.index < 0)) {
+    issues.push({ path: `${path}.index`, message: 'must be a non negative integer' })
+  }
+  switch (file.type) {
+    case 'url':
+      validateUrlFile(file, path, issues)
+      break
+    case 'ipfs':
+      validateIpfsFile(file, path, issues)
+      break
+    case 'arweave':
+      validateArweaveFile(file, path, issues)
+      break
+    case 'graphql':
+      validateGraphqlQuery(file, path, issues)
+      break
+    case 'smartcontract':
+      validateSmartContractCall(file, path, issues)
+      break
+    default:
+      issues.push({
+        path: `${path}.type`,
+        message: `unknown file type ${(file as any).type}`
+      })
+  }
+  return issues
+}
+
+/**
+ * Validates the files object encrypted into a service
+ * @param {Files} files files object
+ * @return {ValidationIssue[]} issues found, empty when the files are valid
+ */
+export function validateFiles(files: Files): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+  if (!ADDRESS.test(files.nftAddress || '')) {
+    issues.push({ path: 'nftAddress', message: 'must be an address' })
+  }
+  if (!ADDRESS.test(files.datatokenAddress || '')) {
+    issues.push({ path: 'datatokenAddress', message: 'must be an address' })
+  }
+  if (!Array.isArray(files.files) || files.files.length === 0) {
+    issues.push({ path: 'files', message: 'must be a non empty array' })
+    return issues
+  }
+  files.files.forEach((file, index) =>
+    issues.push(...validateStorageObject(file, `files[${index}]`))
+  )
+  return issues
+}
+
+/**
+ * Returns true when the value looks like a files object rather than a DDO
+ * @param {any} data value to check
+ * @return {boolean}
+ */
+export function isFilesObject(data: any): data is Files {
+  return (
+    !!data &&
+    typeof data === 'object' &&
+    Array.isArray(data.files) &&
+    'datatokenAddress' in data
+  )
+}
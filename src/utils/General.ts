@@ -6,3 +6,31 @@ export async function sleep(ms: number) {
     setTimeout(resolve, ms)
   })
 }
+
+/**
+ * Maps items with an async function, running at most `limit` calls at once
+ * @param {T[]} items items to map
+ * @param {number} limit maximum number of concurrent calls
+ * @param {Function} fn async function called for every item
+ * @return {Promise<R[]>} results in the order of the items
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let next = 0
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await fn(items[index], index)
+    }
+  }
+  const workers = []
+  for (let i = 0; i < Math.min(Math.max(limit, 1), items.length); i++) {
+    workers.push(worker())
+  }
+  await Promise.all(workers)
+  return results
+}
@@ -0,0 +1,135 @@
+import Web3 from 'web3'
+import { AbiItem } from 'web3-utils'
+import sha256 from 'crypto-js/sha256'
+import defaultNftAbi from '@oceanprotocol/contracts/artifacts/contracts/templates/ERC721Template.sol/ERC721Template.json'
+
+export type MetadataEventName = 'MetadataCreated' | 'MetadataUpdated'
+
+export interface MetadataEvent {
+  event: MetadataEventName
+  nftAddress: string
+  updatedBy: string
+  state: number
+  decryptorUrl: string
+  /**
+   * Flags of the data, bit 1 is set when it is compressed, bit 2 when it is encrypted.
+   * @type {string}
+   */
+  flags: string
+  data: string
+  metaDataHash: string
+  timestamp: number
+  blockNumber: number
+  transactionHash: string
+}
+
+/**
+ * Thrown when a document does not hash to the metaDataHash stored on chain.
+ */
+export class DocumentHashMismatchError extends Error {
+  public expected: string
+  public actual: string
+
+  constructor(expected: string, actual: string) {
+    super(`Document hash ${actual} does not match the on-chain hash ${expected}`)
+    Object.setPrototypeOf(this, new.target.prototype)
+    this.name = 'DocumentHashMismatchError'
+    this.expected = expected
+    this.actual = actual
+  }
+}
+
+const METADATA_EVENTS = (defaultNftAbi.abi as AbiItem[]).filter(
+  (item) =>
+    item.type === 'event' &&
+    (item.name === 'MetadataCreated' || item.name === 'MetadataUpdated')
+)
+
+function normalizeHash(hash: string): string {
+  return hash.toLowerCase().replace(/^0x/, '')
+}
+
+/**
+ * Decodes a MetadataCreated or MetadataUpdated log of an ERC721 contract
+ * @param {Web3} web3 web3 instance
+ * @param {any} log raw log, as found in receipts or returned by getPastLogs
+ * @return {MetadataEvent} null when the log is not a metadata event
+ */
+export function decodeMetadataEvent(web3: Web3, log: any): MetadataEvent {
+  const abi = METADATA_EVENTS.find(
+    (item) => web3.eth.abi.encodeEventSignature(item) === log.topics?.[0]
+  )
+  if (!abi) return null
+  const values = web3.eth.abi.decodeLog(abi.inputs, log.data, log.topics.slice(1))
+  return {
+    event: abi.name as MetadataEventName,
+    nftAddress: log.address,
+    updatedBy: values.createdBy || values.updatedBy,
+    state: Number(values.state),
+    decryptorUrl: values.decryptorUrl,
+    flags: values.flags,
+    data: values.data,
+    metaDataHash: values.metaDataHash,
+    timestamp: Number(values.timestamp),
+    blockNumber: Number(values.blockNumber),
+    transactionHash: log.transactionHash
+  }
+}
+
+/**
+ * Returns the metadata event emitted by a transaction
+ * @param {Web3} web3 web3 instance
+ * @param {string} txId transaction hash of setMetadata or of the NFT creation
+ * @param {string} nftAddress only return events of this ERC721 contract
+ * @return {Promise<MetadataEvent>} null when the transaction did not set metadata
+ */
+export async function getMetadataEventFromTx(
+  web3: Web3,
+  txId: string,
+  nftAddress?: string
+): Promise<MetadataEvent> {
+  const receipt = await web3.eth.getTransactionReceipt(txId)
+  if (!receipt) return null
+  for (const log of receipt.logs) {
+    if (nftAddress && log.address.toLowerCase() !== nftAddress.toLowerCase()) continue
+    const event = decodeMetadataEvent(web3, log)
+    if (event) return event
+  }
+  return null
+}
+
+/**
+ * Returns the metadata events of an ERC721 contract, oldest first
+ * @param {Web3} web3 web3 instance
+ * @param {string} nftAddress ERC721 contract address
+ * @param {number} fromBlock first block to search
+ * @param {number | string} toBlock last block to search, defaults to latest
+ * @return {Promise<MetadataEvent[]>}
+ */
+export async function getMetadataEvents(
+  web3: Web3,
+  nftAddress: string,
+  fromBlock: number,
+  toBlock: number | string = 'latest'
+): Promise<MetadataEvent[]> {
+  const logs = await web3.eth.getPastLogs({
+    address: nftAddress,
+    fromBlock,
+    toBlock,
+    topics: [METADATA_EVENTS.map((item) => web3.eth.abi.encodeEventSignature(item))]
+  })
+  return logs.map((log) => decodeMetadataEvent(web3, log)).filter((event) => event)
+}
+
+/**
+ * Checks that a document hashes to the metaDataHash stored on chain
+ * @param {string} document document as it was hashed, usually the DDO json string
+ * @param {string} metaDataHash expected sha256 hash, with or without 0x prefix
+ * @return {void}
+ */
+export function verifyDocumentHash(document: string, metaDataHash: string) {
+  const actual = sha256(document).toString()
+  if (normalizeHash(actual) !== normalizeHash(metaDataHash)) {
+    throw new DocumentHashMismatchError(metaDataHash, '0x' + actual)
+  }
+}
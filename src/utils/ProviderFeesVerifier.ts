@@ -0,0 +1,112 @@
+import Web3 from 'web3'
+import { ProviderFees } from '../@types'
+
+export interface ProviderFeesVerification {
+  /**
+   * True when the signature matches providerFeeAddress and the fees did not expire.
+   * @type {boolean}
+   */
+  valid: boolean
+
+  /**
+   * Address recovered from the signature, null if it could not be recovered.
+   * @type {string}
+   */
+  signer: string
+
+  /**
+   * True when validUntil is in the past of the latest block.
+   * @type {boolean}
+   */
+  expired: boolean
+
+  /**
+   * Reasons why the fees are not valid.
+   * @type {string[]}
+   */
+  errors: string[]
+}
+
+/**
+ * Thrown before ordering when the provider fees would be rejected by the datatoken contract.
+ */
+export class InvalidProviderFeesError extends Error {
+  public verification: ProviderFeesVerification
+
+  constructor(verification: ProviderFeesVerification) {
+    super(`Invalid provider fees: ${verification.errors.join(', ')}`)
+    Object.setPrototypeOf(this, new.target.prototype)
+    this.name = 'InvalidProviderFeesError'
+    this.verification = verification
+  }
+}
+
+/**
+ * Rebuilds the message the provider signed, as checked by the datatoken contract
+ * @param {Web3} web3 web3 instance
+ * @param {ProviderFees} providerFees provider fees
+ * @return {string} keccak256 hash of the packed fee fields
+ */
+export function getProviderFeesMessage(web3: Web3, providerFees: ProviderFees): string {
+  return web3.utils.soliditySha3(
+    { t: 'bytes', v: providerFees.providerData },
+    { t: 'address', v: providerFees.providerFeeAddress },
+    { t: 'address', v: providerFees.providerFeeToken },
+    { t: 'uint256', v: providerFees.providerFeeAmount },
+    { t: 'uint256', v: providerFees.validUntil }
+  )
+}
+
+/**
+ * Checks provider fees locally: recovers the signer of the fees and compares it with
+ * providerFeeAddress, then checks validUntil against the timestamp of the latest block.
+ * @param {Web3} web3 web3 instance
+ * @param {ProviderFees} providerFees provider fees returned by initialize
+ * @param {number} timestamp unix time to check validUntil against, latest block time by default
+ * @return {Promise<ProviderFeesVerification>}
+ */
+export async function verifyProviderFees(
+  web3: Web3,
+  providerFees: ProviderFees,
+  timestamp?: number
+): Promise<ProviderFeesVerification> {
+  const errors: string[] = []
+  let signer: string = null
+  try {
+    signer = web3.eth.accounts.recover(
+      getProviderFeesMessage(web3, providerFees),
+      // providers send v as a number, recover expects it hex encoded
+      web3.utils.numberToHex(providerFees.v),
+      providerFees.r,
+      providerFees.s
+    )
+  } catch (e) {
+    errors.push(`signature can not be recovered (${e.message})`)
+  }
+  if (signer && signer.toLowerCase() !== providerFees.providerFeeAddress.toLowerCase()) {
+    errors.push(`signed by ${signer} instead of ${providerFees.providerFeeAddress}`)
+  }
+
+  const validUntil = Number(providerFees.validUntil)
+  let expired = false
+  if (validUntil > 0) {
+    const now = timestamp ?? Number((await web3.eth.getBlock('latest')).timestamp)
+    expired = validUntil < now
+    if (expired) errors.push(`expired at ${validUntil}, current time is ${now}`)
+  }
+  return { valid: errors.length === 0, signer, expired, errors }
+}
+
+/**
+ * Same as verifyProviderFees, but throws when the fees are not valid
+ * @param {Web3} web3 web3 instance
+ * @param {ProviderFees} providerFees provider fees returned by initialize
+ * @return {Promise<void>}
+ */
+export async function assertValidProviderFees(
+  web3: Web3,
+  providerFees: ProviderFees
+): Promise<void> {
+  const verification = await verifyProviderFees(web3, providerFees)
+  if (!verification.valid) throw new InvalidProviderFeesError(verification)
+}
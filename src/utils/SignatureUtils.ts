@@ -1,8 +1,23 @@
 import Web3 from 'web3'
 import { LoggerInstance } from './Logger'
+import { Signer, isSigner } from './Signer'
 
-export async function signHash(web3: Web3, message: string, address: string) {
-  let signedMessage = await web3.eth.sign(message, address)
+async function signWithSigner(
+  signer: Signer,
+  address: string,
+  message: string
+): Promise<string> {
+  const signerAddress = await signer.getAddress()
+  if (address && signerAddress.toLowerCase() !== address.toLowerCase()) {
+    throw new Error(`Signer address ${signerAddress} does not match ${address}`)
+  }
+  return signer.signMessage(message)
+}
+
+export async function signHash(web3: Web3 | Signer, message: string, address: string) {
+  let signedMessage = isSigner(web3)
+    ? await signWithSigner(web3, address, message)
+    : await web3.eth.sign(message, address)
   signedMessage = signedMessage.substr(2) // remove 0x
   const r = '0x' + signedMessage.slice(0, 64)
   const s = '0x' + signedMessage.slice(64, 128)
@@ -12,3 +27,30 @@ export async function signHash(web3: Web3, message: string, address: string) {
   if (v === '0x01') v = '0x1c'
   return { v, r, s }
 }
+
+/**
+ * Signs a message the way Ocean Provider expects it: the keccak256 hash of the
+ * utf8 message, signed by the account as an Ethereum signed message.
+ * @param {Web3 | Signer} web3 web3 instance holding the signing account, or a Signer
+ * @param {string} accountId address of the signing account, must be the Signer address
+ * @param {string} message message to sign
+ * @param {string} password optional password for the account
+ * @return {Promise<string>} signature
+ */
+export async function signProviderRequest(
+  web3: Web3 | Signer,
+  accountId: string,
+  message: string,
+  password?: string
+): Promise<string> {
+  const consumerMessage = Web3.utils.soliditySha3({
+    t: 'bytes',
+    v: Web3.utils.utf8ToHex(message)
+  })
+  if (isSigner(web3)) return await signWithSigner(web3, accountId, consumerMessage)
+  const isMetaMask =
+    web3 && web3.currentProvider && (web3.currentProvider as any).isMetaMask
+  if (isMetaMask)
+    return await web3.eth.personal.sign(consumerMessage, accountId, password)
+  else return await web3.eth.sign(consumerMessage, accountId)
+}
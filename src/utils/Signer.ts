@@ -0,0 +1,236 @@
+import { _TypedDataEncoder as TypedDataEncoder } from '@ethersproject/hash'
+import { SigningKey } from '@ethersproject/signing-key'
+import Web3 from 'web3'
+
+export interface TypedDataField {
+  name: string
+  type: string
+}
+
+/**
+ * EIP-712 domain, only the fields present are part of the `EIP712Domain` type.
+ */
+export interface TypedDataDomain {
+  name?: string
+  version?: string
+  chainId?: number
+  verifyingContract?: string
+  salt?: string
+}
+
+/**
+ * EIP-712 struct types by name, without `EIP712Domain`.
+ */
+export interface TypedDataTypes {
+  [typeName: string]: TypedDataField[]
+}
+
+/**
+ * Minimal EIP-1193 provider, e.g. `window.ethereum`.
+ */
+export interface Eip1193Provider {
+  request(args: { method: string; params?: any[] }): Promise<any>
+}
+
+/**
+ * Signs messages on behalf of one account.
+ */
+export interface Signer {
+  /**
+   * Address of the signing account.
+   * @return {Promise<string>}
+   */
+  getAddress(): Promise<string>
+
+  /**
+   * Signs hex encoded data, prefixed as an Ethereum signed message (EIP-191).
+   * @param {string} message hex encoded data
+   * @return {Promise<string>} signature
+   */
+  signMessage(message: string): Promise<string>
+
+  /**
+   * Signs EIP-712 typed data, only available when the wallet supports it.
+   * @param {TypedDataDomain} domain domain of the data
+   * @param {TypedDataTypes} types struct types, the primary type is the one no other type uses
+   * @param {any} value value of the primary type
+   * @return {Promise<string>} signature
+   */
+  signTypedData?(
+    domain: TypedDataDomain,
+    types: TypedDataTypes,
+    value: { [key: string]: any }
+  ): Promise<string>
+}
+
+/**
+ * Returns the `eth_signTypedData_v4` payload of the typed data
+ * @param {TypedDataDomain} domain domain of the data
+ * @param {TypedDataTypes} types struct types, without `EIP712Domain`
+ * @param {any} value value of the primary type
+ * @return {string} JSON encoded payload
+ */
+function getTypedDataPayload(
+  domain: TypedDataDomain,
+  types: TypedDataTypes,
+  value: { [key: string]: any }
+): string {
+  return JSON.stringify(TypedDataEncoder.getPayload(domain, types, value))
+}
+
+/**
+ * Returns true when the value implements the Signer interface
+ * @param {any} value value to check
+ * @return {boolean}
+ */
+export function isSigner(value: any): value is Signer {
+  return (
+    !!value &&
+    typeof value.getAddress === 'function' &&
+    typeof value.signMessage === 'function'
+  )
+}
+
+/**
+ * Signer for an account managed by a web3 instance (node or browser wallet).
+ */
+export class Web3Signer implements Signer {
+  public web3: Web3
+  public address: string
+  private password: string
+
+  /**
+   * Instantiate Web3Signer
+   * @param {Web3} web3 web3 instance holding the account
+   * @param {string} address address of the account
+   * @param {string} password optional password of the account
+   */
+  constructor(web3: Web3, address: string, password?: string) {
+    this.web3 = web3
+    this.address = address
+    this.password = password
+  }
+
+  public async getAddress(): Promise<string> {
+    return this.address
+  }
+
+  public async signMessage(message: string): Promise<string> {
+    const isMetaMask =
+      this.web3 &&
+      this.web3.currentProvider &&
+      (this.web3.currentProvider as any).isMetaMask
+    if (isMetaMask)
+      return await this.web3.eth.personal.sign(message, this.address, this.password)
+    else return await this.web3.eth.sign(message, this.address)
+  }
+
+  public async signTypedData(
+    domain: TypedDataDomain,
+    types: TypedDataTypes,
+    value: { [key: string]: any }
+  ): Promise<string> {
+    const provider = this.web3.currentProvider as any
+    if (!provider || typeof provider.send !== 'function') {
+      throw new Error('The web3 provider does not support eth_signTypedData_v4')
+    }
+    const payload = {
+      jsonrpc: '2.0',
+      id: Date.now(),
+      method: 'eth_signTypedData_v4',
+      params: [this.address, getTypedDataPayload(domain, types, value)]
+    }
+    // the callback based send is implemented by every web3 provider
+    return new Promise((resolve, reject) => {
+      provider.send(payload, (error: Error, response: any) => {
+        if (error) reject(error)
+        else if (response.error) reject(new Error(response.error.message))
+        else resolve(response.result)
+      })
+    })
+  }
+}
+
+/**
+ * Signer holding a raw private key, for server side use.
+ */
+export class PrivateKeySigner implements Signer {
+  private web3: Web3
+  private privateKey: string
+
+  /**
+   * Instantiate PrivateKeySigner
+   * @param {string} privateKey hex encoded private key
+   */
+  constructor(privateKey: string) {
+    this.web3 = new Web3()
+    this.privateKey = privateKey
+  }
+
+  public async getAddress(): Promise<string> {
+    return this.web3.eth.accounts.privateKeyToAccount(this.privateKey).address
+  }
+
+  public async signMessage(message: string): Promise<string> {
+    return this.web3.eth.accounts.sign(message, this.privateKey).signature
+  }
+
+  public async signTypedData(
+    domain: TypedDataDomain,
+    types: TypedDataTypes,
+    value: { [key: string]: any }
+  ): Promise<string> {
+    const digest = TypedDataEncoder.hash(domain, types, value)
+    const { r, s, v } = new SigningKey(this.privateKey).signDigest(digest)
+    return r + s.substring(2) + v.toString(16)
+  }
+}
+
+/**
+ * Signer for an EIP-1193 wallet provider.
+ */
+export class Eip1193Signer implements Signer {
+  public provider: Eip1193Provider
+  private address: string
+
+  /**
+   * Instantiate Eip1193Signer
+   * @param {Eip1193Provider} provider wallet provider
+   * @param {string} address account to sign with, the first wallet account by default
+   */
+  constructor(provider: Eip1193Provider, address?: string) {
+    this.provider = provider
+    this.address = address
+  }
+
+  public async getAddress(): Promise<string> {
+    if (!this.address) {
+      const accounts: string[] = await this.provider.request({
+        method: 'eth_requestAccounts'
+      })
+      if (!accounts || accounts.length === 0) {
+        throw new Error('The wallet did not return any account')
+      }
+      this.address = accounts[0]
+    }
+    return this.address
+  }
+
+  public async signMessage(message: string): Promise<string> {
+    return this.provider.request({
+      method: 'personal_sign',
+      params: [message, await this.getAddress()]
+    })
+  }
+
+  public async signTypedData(
+    domain: TypedDataDomain,
+    types: TypedDataTypes,
+    value: { [key: string]: any }
+  ): Promise<string> {
+    return this.provider.request({
+      method: 'eth_signTypedData_v4',
+      params: [await this.getAddress(), getTypedDataPayload(domain, types, value)]
+    })
+  }
+}
@@ -2,10 +2,19 @@ export * from './Logger'
 export * from './DatatokenName'
 export * from './ContractUtils'
 export * from './FetchHelper'
+export * from './FileValidation'
+export * from './ConsumerParameters'
 export * from './ConfigHelper'
 export * from './DdoHelpers'
+export * from './DdoValidation'
+export * from './CredentialsPolicy'
+export * from './Consumability'
 export * from './Constants'
+export * from './Signer'
 export * from './SignatureUtils'
+export * from './ProviderFeesVerifier'
+export * from './MetadataEvents'
 export * from './TokenUtils'
 export * from './General'
 export * from './PoolHelpers'
+export * from './Errors'
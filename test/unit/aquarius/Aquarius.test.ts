@@ -0,0 +1,236 @@
+import { assert } from 'chai'
+import http from 'http'
+import { AddressInfo } from 'net'
+import { Aquarius, AssetNotFoundError, SearchQuery } from '../../../src'
+
+async function collect<T>(iterator: AsyncGenerator<T, void, undefined>): Promise<T[]> {
+  const items: T[] = []
+  let next = await iterator.next()
+  while (!next.done) {
+    items.push(next.value as T)
+    next = await iterator.next()
+  }
+  return items
+}
+
+type Reply = { status: number; body?: any }
+
+describe('Aquarius', () => {
+  const total = 7
+  const queries: SearchQuery[] = []
+  let ddoReplies: Reply[] = []
+  let ddoState: any = null
+  let assets: { [did: string]: any } = {}
+  let searchFails = false
+  let server: http.Server
+  let aquarius: Aquarius
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      let body = ''
+      req.on('data', (chunk) => (body += chunk))
+      req.on('end', () => {
+        res.setHeader('Content-Type', 'application/json')
+        if (req.url.startsWith('/api/aquarius/assets/ddo/')) {
+          const asset = assets[decodeURIComponent(req.url.split('/').pop())]
+          if (asset) {
+            res.end(JSON.stringify(asset))
+            return
+          }
+          const reply = ddoReplies.length > 1 ? ddoReplies.shift() : ddoReplies[0]
+          res.statusCode = reply.status
+          res.end(JSON.stringify(reply.body || {}))
+          return
+        }
+        if (req.url.startsWith('/api/aquarius/state/ddo')) {
+          res.statusCode = ddoState ? 200 : 404
+          res.end(JSON.stringify(ddoState || {}))
+          return
+        }
+        const query: SearchQuery = JSON.parse(body)
+        queries.push(query)
+        if (searchFails) {
+          res.statusCode = 500
+          res.end(JSON.stringify({ error: 'Search is down' }))
+          return
+        }
+        const ids = query.query.bool?.filter?.[0]?.terms?._id
+        if (ids) {
+          const found = ids.filter((id) => assets[id as string])
+          res.end(
+            JSON.stringify({
+              hits: {
+                hits: found.map((id) => ({ _id: id, _source: assets[id as string] }))
+              }
+            })
+          )
+          return
+        }
+        const start = query.search_after
+          ? Number(query.search_after[0]) + 1
+          : query.from || 0
+        const hits = []
+        for (let i = start; i < Math.min(start + query.size, total); i++) {
+          hits.push({
+            _index: 'v4',
+            _id: `${i}`,
+            _score: 1,
+            _source: { id: i },
+            sort: [i]
+          })
+        }
+        res.end(
+          JSON.stringify({
+            took: 1,
+            timed_out: false,
+            hits: { total: { value: total, relation: 'eq' }, max_score: 1, hits }
+          })
+        )
+      })
+    })
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    const { port } = server.address() as AddressInfo
+    aquarius = new Aquarius(`http://127.0.0.1:${port}`)
+  })
+
+  beforeEach(() => {
+    queries.length = 0
+    ddoReplies = [{ status: 404 }]
+    ddoState = null
+    assets = {}
+    searchFails = false
+  })
+
+  after(() => {
+    server.close()
+  })
+
+  it('should page with from and size', async () => {
+    const query: SearchQuery = { query: { match_all: {} }, from: 0 }
+    const assets = await collect(
+      aquarius.querySearchAll<{ id: number }>(query, { pageSize: 3 })
+    )
+    assert.deepEqual(
+      assets.map((asset) => asset.id),
+      [0, 1, 2, 3, 4, 5, 6]
+    )
+    assert.deepEqual(
+      queries.map((q) => q.from),
+      [0, 3, 6]
+    )
+  })
+
+  it('should page with search_after and stop at the maximum', async () => {
+    const query: SearchQuery = { query: { match_all: {} }, sort: { id: 'asc' } }
+    const assets = await collect(
+      aquarius.querySearchAll<{ id: number }>(query, {
+        pageSize: 2,
+        maxResults: 5,
+        pagination: 'searchAfter'
+      })
+    )
+    assert.deepEqual(
+      assets.map((asset) => asset.id),
+      [0, 1, 2, 3, 4]
+    )
+    assert.deepEqual(
+      queries.map((q) => q.search_after),
+      [undefined, [1], [3]]
+    )
+    assert(queries[2].size === 1)
+  })
+
+  it('should stop when aborted', async () => {
+    const controller = new AbortController()
+    const iterator = aquarius.querySearchAll(
+      { query: { match_all: {} } },
+      {
+        pageSize: 1,
+        signal: controller.signal
+      }
+    )
+    await iterator.next()
+    controller.abort()
+    try {
+      await iterator.next()
+      assert.fail('the iterator should have thrown')
+    } catch (e) {
+      assert(e.name === 'AbortError')
+    }
+  })
+
+  it('should wait for the asset with backoff', async () => {
+    const asset = { id: 'did:op:1', event: { tx: '0xAB' }, purgatory: { state: false } }
+    ddoReplies = [{ status: 404 }, { status: 503 }, { status: 200, body: asset }]
+    const delays: number[] = []
+    const result = await aquarius.waitForIndexing('did:op:1', {
+      txid: '0xab',
+      interval: 10,
+      backoffFactor: 2,
+      onAttempt: (attempt) => delays.push(attempt.nextDelay)
+    })
+    assert(result.status === 'indexed')
+    assert(result.asset.id === 'did:op:1')
+    assert(result.attempts === 3)
+    assert.deepEqual(delays, [10, 20, 0])
+  })
+
+  it('should keep polling without delay when the interval is 0', async () => {
+    const asset = { id: 'did:op:1', event: { tx: '0xab' }, purgatory: { state: false } }
+    ddoReplies = [{ status: 404 }, { status: 404 }, { status: 200, body: asset }]
+    const result = await aquarius.waitForIndexing('did:op:1', { interval: 0 })
+    assert(result.status === 'indexed')
+    assert(result.attempts === 3)
+  })
+
+  it('should stop when Aquarius rejected the DDO', async () => {
+    ddoState = { did: 'did:op:1', tx_id: '0x1', valid: false, error: 'Invalid DDO' }
+    const result = await aquarius.waitForIndexing('did:op:1', { interval: 10 })
+    assert(result.status === 'invalid')
+    assert(result.error === 'Invalid DDO')
+    assert(result.attempts === 1)
+  })
+
+  it('should stop on non-retriable responses', async () => {
+    ddoReplies = [{ status: 400, body: { error: 'Bad did' } }]
+    const result = await aquarius.waitForIndexing('did:op:1', { interval: 10 })
+    assert(result.status === 'failed')
+    assert(result.error.includes('Bad did'))
+  })
+
+  it('should report a timeout', async () => {
+    const result = await aquarius.waitForIndexing('did:op:1', {
+      timeout: 50,
+      interval: 10
+    })
+    assert(result.status === 'timeout')
+    assert(result.asset === null)
+    assert(result.attempts > 1)
+    assert((await aquarius.waitForAqua('did:op:1', null, null, { timeout: 20 })) === null)
+  })
+
+  it('should resolve many DIDs with one search', async () => {
+    assets = { 'did:op:1': { id: 'did:op:1' }, 'did:op:2': { id: 'did:op:2' } }
+    const results = await aquarius.resolveMany([
+      'did:op:1',
+      'did:op:2',
+      'did:op:3',
+      'did:op:1'
+    ])
+    assert(queries.length === 1)
+    assert(results['did:op:1'].asset.id === 'did:op:1')
+    assert(results['did:op:2'].asset.id === 'did:op:2')
+    assert(results['did:op:3'].asset === null)
+    assert(results['did:op:3'].error instanceof AssetNotFoundError)
+  })
+
+  it('should resolve one by one when the search fails', async () => {
+    assets = { 'did:op:1': { id: 'did:op:1' }, 'did:op:2': { id: 'did:op:2' } }
+    searchFails = true
+    const results = await aquarius.resolveMany(['did:op:1', 'did:op:2'], {
+      concurrency: 1
+    })
+    assert(results['did:op:1'].asset.id === 'did:op:1')
+    assert(results['did:op:2'].asset.id === 'did:op:2')
+  })
+})
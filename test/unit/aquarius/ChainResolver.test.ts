@@ -0,0 +1,151 @@
+import { assert } from 'chai'
+import Web3 from 'web3'
+import { ChainResolver, generateDid, getHash } from '../../../src'
+import { DDO } from '../../../src/@types'
+
+describe('ChainResolver', () => {
+  const chainId = 8996
+  const nftAddress = '0x1111111111111111111111111111111111111111'
+  const datatokenAddress = '0x2222222222222222222222222222222222222222'
+  const owner = '0x3333333333333333333333333333333333333333'
+  const web3 = new Web3()
+  let ddo: DDO
+  let metaDataState: number
+
+  function metadataCreatedLog(document: string) {
+    const signature = web3.eth.abi.encodeEventSignature(
+      'MetadataCreated(address,uint8,string,bytes,bytes,bytes32,uint256,uint256)'
+    )
+    return {
+      address: nftAddress,
+      topics: [signature, web3.eth.abi.encodeParameter('address', owner)],
+      data: web3.eth.abi.encodeParameters(
+        ['uint8', 'string', 'bytes', 'bytes', 'bytes32', 'uint256', 'uint256'],
+        [
+          0,
+          'https://provider.example.com',
+          '0x00',
+          web3.utils.utf8ToHex(document),
+          '0x' + getHash(document),
+          1650000000,
+          10
+        ]
+      ),
+      blockNumber: '0xa',
+      transactionHash: '0x' + 'ab'.repeat(32),
+      transactionIndex: '0x0',
+      blockHash: '0x' + 'cd'.repeat(32),
+      logIndex: '0x0'
+    }
+  }
+
+  function callResult(to: string, data: string): string {
+    const selector = data.slice(0, 10)
+    const name = to.toLowerCase() === nftAddress ? 'Data NFT' : 'Datatoken'
+    const results: { [signature: string]: [string, any] } = {
+      'name()': ['string', name],
+      'symbol()': ['string', name.toUpperCase()],
+      'ownerOf(uint256)': ['address', owner],
+      'tokenURI(uint256)': ['string', 'https://nft.example.com/1'],
+      'metaDataState()': ['uint8', metaDataState]
+    }
+    const signature = Object.keys(results).find(
+      (item) => web3.eth.abi.encodeFunctionSignature(item) === selector
+    )
+    const [type, value] = results[signature]
+    return web3.eth.abi.encodeParameter(type, value)
+  }
+
+  function createResolver(): ChainResolver {
+    const provider = {
+      send(payload: any, callback: (error: Error, result?: any) => void) {
+        const document = JSON.stringify(ddo)
+        const results: { [method: string]: () => any } = {
+          eth_chainId: () => web3.utils.toHex(chainId),
+          eth_getLogs: () => [metadataCreatedLog(document)],
+          eth_call: () => callResult(payload.params[0].to, payload.params[0].data)
+        }
+        callback(null, {
+          jsonrpc: '2.0',
+          id: payload.id,
+          result: results[payload.method]()
+        })
+      }
+    }
+    return new ChainResolver(new Web3(provider as any))
+  }
+
+  beforeEach(() => {
+    metaDataState = 0
+    ddo = {
+      '@context': ['https://w3id.org/did/v1'],
+      id: generateDid(nftAddress, chainId),
+      version: '4.1.0',
+      chainId,
+      nftAddress,
+      metadata: {
+        created: '2022-04-15T12:00:00Z',
+        updated: '2022-04-15T12:00:00Z',
+        type: 'dataset',
+        name: 'Rain',
+        description: 'Rain per day',
+        author: 'Ocean',
+        license: 'MIT'
+      },
+      services: [
+        {
+          id: '0',
+          type: 'access',
+          files: '0x00',
+          datatokenAddress,
+          serviceEndpoint: 'https://provider.example.com',
+          timeout: 0
+        }
+      ]
+    }
+  })
+
+  it('should rebuild the asset from chain data', async () => {
+    const asset = await createResolver().resolve(nftAddress)
+    assert.equal(asset.id, ddo.id)
+    assert.equal(asset.metadata.name, 'Rain')
+    assert.equal(asset.nft.owner, owner)
+    assert.equal(asset.nft.name, 'Data NFT')
+    assert.equal(asset.nft.created, new Date(1650000000 * 1000).toISOString())
+    assert.deepEqual(asset.datatokens, [
+      {
+        address: datatokenAddress,
+        name: 'Datatoken',
+        symbol: 'DATATOKEN',
+        serviceId: '0'
+      }
+    ])
+    assert.equal(asset.event.tx, '0x' + 'ab'.repeat(32))
+  })
+
+  it('should read the NFT state from the contract', async () => {
+    // setMetaDataState emits no MetadataUpdated event, the last one still has state 0
+    metaDataState = 5
+    const asset = await createResolver().resolve(nftAddress)
+    assert.equal(asset.nft.state, 5)
+  })
+
+  it('should reject a DDO with the id of another NFT', async () => {
+    ddo.id = generateDid(datatokenAddress, chainId)
+    try {
+      await createResolver().resolve(nftAddress)
+      assert.fail('resolve should have thrown')
+    } catch (e) {
+      assert.include(e.message, `expected ${generateDid(nftAddress, chainId)}`)
+    }
+  })
+
+  it('should check the DID before resolving', async () => {
+    try {
+      await createResolver().resolveDid(generateDid(nftAddress, 1), nftAddress)
+      assert.fail('resolveDid should have thrown')
+    } catch (e) {
+      assert.include(e.message, `on chain ${chainId}`)
+    }
+  })
+})
@@ -0,0 +1,147 @@
+import { assert } from 'chai'
+import Web3 from 'web3'
+import { DdoCache, MemoryCacheStorage } from '../../../src'
+import { Asset } from '../../../src/@types'
+
+describe('DdoCache', () => {
+  const url = 'https://aquarius.example.com'
+  const nftAddress = '0x1111111111111111111111111111111111111111'
+
+  function asset(id: string, tx = '0xa1'): Asset {
+    return {
+      id,
+      chainId: 8996,
+      nftAddress,
+      event: { tx, block: 10 }
+    } as Asset
+  }
+
+  function metadataUpdatedLog(web3: Web3, transactionHash: string) {
+    const signature = web3.eth.abi.encodeEventSignature(
+      'MetadataUpdated(address,uint8,string,bytes,bytes,bytes32,uint256,uint256)'
+    )
+    return {
+      address: nftAddress,
+      topics: [signature, web3.eth.abi.encodeParameter('address', nftAddress)],
+      data: web3.eth.abi.encodeParameters(
+        ['uint8', 'string', 'bytes', 'bytes', 'bytes32', 'uint256', 'uint256'],
+        [0, 'https://provider', '0x02', '0x00', '0x' + '00'.repeat(32), 1, 11]
+      ),
+      transactionHash
+    }
+  }
+
+  it('should evict the least recently used entries', async () => {
+    const storage = new MemoryCacheStorage(2)
+    const cache = new DdoCache({ storage, chainId: 8996 })
+    const loads: string[] = []
+    const load = (did: string) => () => {
+      loads.push(did)
+      return Promise.resolve(asset(did))
+    }
+    await cache.resolve(url, 'did:op:1', load('did:op:1'))
+    await cache.resolve(url, 'did:op:2', load('did:op:2'))
+    await cache.resolve(url, 'did:op:1', load('did:op:1'))
+    await cache.resolve(url, 'did:op:3', load('did:op:3'))
+    await cache.resolve(url, 'did:op:1', load('did:op:1'))
+    await cache.resolve(url, 'did:op:2', load('did:op:2'))
+    assert.deepEqual(loads, ['did:op:1', 'did:op:2', 'did:op:3', 'did:op:2'])
+    assert(storage.size === 2)
+  })
+
+  it('should reload expired entries and key them by aquarius url', async () => {
+    const cache = new DdoCache({ ttl: 20, chainId: 8996 })
+    let loads = 0
+    const load = () => {
+      loads++
+      return Promise.resolve(asset('did:op:1'))
+    }
+    await cache.resolve(url, 'did:op:1', load)
+    await cache.resolve('https://other.example.com', 'did:op:1', load)
+    await cache.resolve(url, 'did:op:1', load)
+    assert.equal(loads, 2)
+    await new Promise((resolve) => setTimeout(resolve, 30))
+    await cache.resolve(url, 'did:op:1', load)
+    assert.equal(loads, 3)
+  })
+
+  it('should find entries by DIDs differing in case', async () => {
+    const cache = new DdoCache({ chainId: 8996 })
+    const did = 'did:op:a2b8b3ac4207cfccbde4ac7fa40214fd00a2ba71'
+    let loads = 0
+    const load = () => {
+      loads++
+      return Promise.resolve(asset(did))
+    }
+    await cache.resolve(url, did.toUpperCase(), load)
+    await cache.resolve(url, did, load)
+    assert.equal(loads, 1)
+    assert.equal(
+      (await cache.get(url, 'did:op:A2B8b3aC4207CFCCbDe4Ac7fa40214fd00A2BA71')).id,
+      did
+    )
+    await cache.invalidate(url, did.toUpperCase())
+    assert.equal(await cache.get(url, did), null)
+  })
+
+  it('should drop entries with a newer metadata event on chain', async () => {
+    const web3 = new Web3()
+    let logs = [metadataUpdatedLog(web3, '0xa1')]
+    web3.eth.getChainId = () => Promise.resolve(8996)
+    web3.eth.getPastLogs = () => Promise.resolve(logs) as any
+    const cache = new DdoCache({ web3, checkInterval: 0 })
+    let loads = 0
+    const load = () => {
+      loads++
+      return Promise.resolve(asset('did:op:1', loads === 1 ? '0xa1' : '0xb2'))
+    }
+    await cache.resolve(url, 'did:op:1', load)
+    await cache.resolve(url, 'did:op:1', load)
+    assert.equal(loads, 1)
+
+    logs = [...logs, metadataUpdatedLog(web3, '0xb2')]
+    const updated = await cache.resolve(url, 'did:op:1', load)
+    assert.equal(loads, 2)
+    assert(updated.event.tx === '0xb2')
+  })
+
+  it('should cache assets of other chains and survive a failing RPC', async () => {
+    const web3 = new Web3()
+    let logChecks = 0
+    web3.eth.getChainId = () => Promise.reject(new Error('RPC is down'))
+    web3.eth.getPastLogs = () => {
+      logChecks++
+      return Promise.resolve([]) as any
+    }
+    const cache = new DdoCache({ web3, checkInterval: 0 })
+    let loads = 0
+    const load = (chainId: number) => () => {
+      loads++
+      return Promise.resolve({ ...asset(`did:op:${chainId}`), chainId })
+    }
+    await cache.resolve(url, 'did:op:1', load(1))
+    await cache.resolve(url, 'did:op:137', load(137))
+    assert((await cache.resolve(url, 'did:op:1', load(1))).chainId === 1)
+    assert((await cache.resolve(url, 'did:op:137', load(137))).chainId === 137)
+    assert.equal(loads, 2)
+    assert.equal(logChecks, 0)
+  })
+
+  it('should share concurrent loads of the same DID', async () => {
+    const cache = new DdoCache()
+    let loads = 0
+    const load = () => {
+      loads++
+      return new Promise<Asset>((resolve) =>
+        setTimeout(() => resolve(asset('did:op:1')), 10)
+      )
+    }
+    const results = await Promise.all([
+      cache.resolve(url, 'did:op:1', load),
+      cache.resolve(url, 'did:op:1', load),
+      cache.resolve(url, 'did:op:1', load)
+    ])
+    assert.equal(loads, 1)
+    assert(results.every((result) => result.id === 'did:op:1'))
+  })
+})
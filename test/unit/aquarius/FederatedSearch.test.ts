@@ -0,0 +1,78 @@
+import { assert } from 'chai'
+import http from 'http'
+import { AddressInfo } from 'net'
+import { FederatedSearch, SearchQuery } from '../../../src'
+
+describe('FederatedSearch', () => {
+  const servers: http.Server[] = []
+  const queries: SearchQuery[] = []
+
+  async function startAquarius(status: number, assets: any[]): Promise<string> {
+    const server = http.createServer((req, res) => {
+      let body = ''
+      req.on('data', (chunk) => (body += chunk))
+      req.on('end', () => {
+        queries.push(JSON.parse(body))
+        res.statusCode = status
+        res.setHeader('Content-Type', 'application/json')
+        const hits = assets.map((asset) => ({
+          _id: asset.id,
+          _score: 1,
+          _source: asset,
+          sort: [asset.metadata.created]
+        }))
+        res.end(
+          JSON.stringify(
+            status === 200
+              ? { hits: { total: { value: assets.length, relation: 'eq' }, hits } }
+              : { error: 'Index unavailable' }
+          )
+        )
+      })
+    })
+    servers.push(server)
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  }
+
+  function asset(id: string, chainId: number, created: string) {
+    return { id, chainId, metadata: { created } }
+  }
+
+  after(() => {
+    servers.forEach((server) => server.close())
+  })
+
+  it('should merge, sort and deduplicate the hits of every endpoint', async () => {
+    const mainnet = await startAquarius(200, [
+      asset('did:op:a', 1, '2022-03-01T00:00:00Z'),
+      asset('did:op:c', 137, '2022-01-01T00:00:00Z')
+    ])
+    const polygon = await startAquarius(200, [
+      asset('did:op:b', 137, '2022-02-01T00:00:00Z'),
+      asset('did:op:c', 137, '2022-01-01T00:00:00Z')
+    ])
+    const down = await startAquarius(500, [])
+    const search = new FederatedSearch([
+      { aquariusUrl: mainnet, chainIds: [1] },
+      { aquariusUrl: polygon, chainIds: [137] },
+      { aquariusUrl: down, chainIds: [56] }
+    ])
+
+    const result = await search.querySearch({
+      query: { match_all: {} },
+      sort: { 'metadata.created': 'desc' },
+      size: 10
+    })
+
+    assert.deepEqual(
+      result.hits.map((hit) => hit._source.id),
+      ['did:op:a', 'did:op:b', 'did:op:c']
+    )
+    assert(result.total === 4)
+    assert(result.endpoints[0].total === 2 && !result.endpoints[0].error)
+    assert(result.endpoints[2].error.message.includes('Index unavailable'))
+    const chainFilters = queries.map((query) => query.query.bool.filter[0].terms.chainId)
+    assert.deepEqual(chainFilters, [[1], [137], [56]])
+  })
+})
@@ -0,0 +1,76 @@
+import { assert } from 'chai'
+import { SearchQueryBuilder, SearchFields } from '../../../src'
+
+describe('SearchQueryBuilder', () => {
+  it('should match everything without clauses', () => {
+    assert.deepEqual(new SearchQueryBuilder().build(), { query: { match_all: {} } })
+  })
+
+  it('should combine Ocean filters into a bool query', () => {
+    const query = new SearchQueryBuilder()
+      .chainIds([1, 137])
+      .serviceType('compute')
+      .tags(['weather'])
+      .owner('0xabc')
+      .createdBetween('now-7d')
+      .excludePurgatory()
+      .text('rain', ['metadata.name'])
+      .sortBy(SearchFields.created)
+      .facet('tags', SearchFields.tags, 10)
+      .page(3, 20)
+      .build()
+
+    const expected: any = {
+      query: {
+        bool: {
+          must: [{ query_string: { query: 'rain', fields: ['metadata.name'] } }],
+          filter: [
+            { terms: { chainId: [1, 137] } },
+            { term: { 'services.type': 'compute' } },
+            { terms: { 'metadata.tags.keyword': ['weather'] } },
+            { term: { 'nft.owner.keyword': '0xabc' } },
+            { range: { 'metadata.created': { gte: 'now-7d' } } }
+          ],
+          must_not: [{ term: { 'purgatory.state': true } }]
+        }
+      },
+      from: 40,
+      size: 20,
+      sort: [{ 'metadata.created': 'desc' }],
+      aggs: { tags: { terms: { field: 'metadata.tags.keyword', size: 10 } } }
+    }
+    assert.deepEqual(query, expected)
+  })
+
+  it('should filter by price type', () => {
+    assert.deepEqual(
+      new SearchQueryBuilder().priceType('free').buildQuery().bool.filter,
+      [{ term: { 'stats.price.value': 0 } }]
+    )
+    assert.deepEqual(
+      new SearchQueryBuilder().priceType('fixed').buildQuery().bool.filter,
+      [{ range: { 'stats.price.value': { gt: 0 } } }]
+    )
+  })
+
+  it('should build nested and should clauses', () => {
+    const query = new SearchQueryBuilder()
+      .nested('datatokens', new SearchQueryBuilder().exists('datatokens.address'))
+      .term(SearchFields.assetType, 'dataset', 'should')
+      .term(SearchFields.assetType, 'algorithm', 'should')
+      .minimumShouldMatch(1)
+      .build()
+
+    const expected: any = [
+      {
+        nested: {
+          path: 'datatokens',
+          query: { bool: { filter: [{ exists: { field: 'datatokens.address' } }] } }
+        }
+      }
+    ]
+    assert.deepEqual(query.query.bool.filter, expected)
+    assert(query.query.bool.should.length === 2)
+    assert(query.query.bool.minimum_should_match === 1)
+  })
+})
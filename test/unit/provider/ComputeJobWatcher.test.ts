@@ -0,0 +1,111 @@
+import { assert } from 'chai'
+import {
+  ComputeJobStatus,
+  ComputeJobTransition,
+  ComputeJobWatcher,
+  PrivateKeySigner,
+  ProviderClient,
+  waitForComputeJob
+} from '../../../src'
+import { ComputeJob } from '../../../src/@types'
+import { MockProviderServer } from '../../../src/node'
+
+describe('ComputeJobWatcher', () => {
+  const signer = new PrivateKeySigner(
+    '0xc85ef7d79691fe79573b1a7064c19c1a9819ebdbd1faaab1a8ec92344438aaf4'
+  )
+  const did = 'did:op:a2B8b3aC4207CFCCbDe4Ac7fa40214fd00A2BA71'
+  let server: MockProviderServer
+  let client: ProviderClient
+  let consumer: string
+
+  before(async () => {
+    server = new MockProviderServer()
+    client = new ProviderClient(await server.start())
+    consumer = await signer.getAddress()
+  })
+
+  beforeEach(() => {
+    server.reset()
+  })
+
+  after(async () => {
+    await server.stop()
+  })
+
+  async function startJob(): Promise<string> {
+    const [job] = (await client.computeStart(
+      signer,
+      consumer,
+      server.environments[0].id,
+      { documentId: did, serviceId: '0' },
+      { documentId: did, serviceId: '1' }
+    )) as ComputeJob[]
+    return job.jobId
+  }
+
+  it('should emit every transition until the job finished', async () => {
+    const jobId = await startJob()
+    const watcher = new ComputeJobWatcher(client, consumer, jobId, { interval: 10 })
+    const transitions: ComputeJobTransition[] = []
+    watcher.on('transition', (transition) => transitions.push(transition))
+    watcher.on('update', () => server.advanceJob(jobId))
+    let finished: ComputeJob
+    watcher.on('finished', (job) => (finished = job))
+
+    const job = await watcher.start()
+    assert.equal(job.status, ComputeJobStatus.Finished)
+    assert.equal(job.results.length, 2)
+    assert.equal(finished, job)
+    assert.equal(transitions[0].from, undefined)
+    assert.equal(transitions[transitions.length - 1].to, ComputeJobStatus.Finished)
+    assert.equal(transitions.length, 8)
+  })
+
+  it('should retry polls answered with 5xx or 429 until the job finished', async () => {
+    const jobId = await startJob()
+    server.advanceJob(jobId, ComputeJobStatus.Finished)
+    server
+      .failNext('computeStatus', { status: 503 })
+      .failNext('computeStatus', { status: 429 })
+      .failNext('computeStatus', { status: 500 })
+    const watcher = new ComputeJobWatcher(client, consumer, jobId, {
+      interval: 10,
+      timeout: 2000
+    })
+    const statuses: number[] = []
+    watcher.on('pollError', (error) => statuses.push(error.status))
+
+    const job = await watcher.start()
+    assert.equal(job.status, ComputeJobStatus.Finished)
+    assert.deepEqual(statuses, [503, 429, 500])
+  })
+
+  it('should time out while a status request hangs', async () => {
+    const jobId = await startJob()
+    server.failNext('computeStatus', { delay: 5000 })
+    const started = Date.now()
+    try {
+      await waitForComputeJob(client, consumer, jobId, { timeout: 100 })
+      assert.fail('waitForComputeJob should have thrown')
+    } catch (e) {
+      assert.match(e.message, /did not finish within 100 ms/)
+    }
+    assert(Date.now() - started < 1000)
+  })
+
+  it('should stop waiting when the signal aborts', async () => {
+    const jobId = await startJob()
+    const controller = new AbortController()
+    setTimeout(() => controller.abort(), 50)
+    try {
+      await waitForComputeJob(client, consumer, jobId, {
+        interval: 1000,
+        signal: controller.signal
+      })
+      assert.fail('waitForComputeJob should have thrown')
+    } catch (e) {
+      assert.equal(e.name, 'AbortError')
+    }
+  })
+})
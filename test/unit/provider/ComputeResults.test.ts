@@ -0,0 +1,132 @@
+import { assert } from 'chai'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { ComputeJobStatus, PrivateKeySigner, ProviderClient } from '../../../src'
+import { downloadComputeResults, MockProviderServer } from '../../../src/node'
+import { ComputeJob } from '../../../src/@types'
+
+describe('ComputeResults', () => {
+  const signer = new PrivateKeySigner(
+    '0xc85ef7d79691fe79573b1a7064c19c1a9819ebdbd1faaab1a8ec92344438aaf4'
+  )
+  const did = 'did:op:a2B8b3aC4207CFCCbDe4Ac7fa40214fd00A2BA71'
+  let server: MockProviderServer
+  let client: ProviderClient
+  let consumer: string
+  let directory: string
+
+  before(async () => {
+    server = new MockProviderServer()
+    client = new ProviderClient(await server.start())
+    consumer = await signer.getAddress()
+  })
+
+  beforeEach(() => {
+    server.reset()
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ocean-results-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true })
+  })
+
+  after(async () => {
+    await server.stop()
+  })
+
+  async function finishJob(): Promise<ComputeJob> {
+    const [job] = (await client.computeStart(
+      signer,
+      consumer,
+      server.environments[0].id,
+      { documentId: did, serviceId: '0' },
+      { documentId: did, serviceId: '1' }
+    )) as ComputeJob[]
+    server.advanceJob(job.jobId, ComputeJobStatus.Finished)
+    server.setJobResults(job.jobId, [
+      { filename: 'out.txt', type: 'output', content: 'first' },
+      { filename: '../OUT.txt', type: 'output', content: 'second' },
+      { filename: '1-out.txt', type: 'output', content: 'third' },
+      { filename: 'algorithm.log', type: 'algorithmLog', content: 'log' }
+    ])
+    const [finished] = (await client.computeStatus(consumer, job.jobId)) as ComputeJob[]
+    return finished
+  }
+
+  it('should download the results with unique names', async () => {
+    const job = await finishJob()
+    const manifest = await downloadComputeResults(
+      client,
+      signer,
+      consumer,
+      job,
+      directory,
+      {
+        types: ['output']
+      }
+    )
+    assert.deepEqual(
+      manifest.map((entry) => entry.filename),
+      ['out.txt', '1-OUT.txt', '1-1-out.txt']
+    )
+    assert.deepEqual(
+      manifest.map((entry) => entry.size),
+      [5, 6, 5]
+    )
+    for (const entry of manifest) {
+      assert.equal(entry.path, path.join(directory, entry.filename))
+    }
+    // eslint-disable-next-line security/detect-non-literal-fs-filename
+    assert.equal(fs.readFileSync(manifest[1].path, 'utf8'), 'second')
+  })
+
+  it('should sign a new result url to resume a transfer', async () => {
+    const job = await finishJob()
+    const content = 'algorithm log'
+    server.respondWith('computeResult', (request) => {
+      // the first answer ends after 5 bytes, the resumed one sends the rest
+      const range = /bytes=(\d+)-/.exec((request.headers.range as string) || '')
+      const start = range ? Number(range[1]) : 0
+      const end = range ? content.length : 5
+      return {
+        status: range ? 206 : 200,
+        body: content.slice(start, end),
+        headers: { 'Content-Range': `bytes ${start}-${end - 1}/${content.length}` }
+      }
+    })
+    const [entry] = await downloadComputeResults(
+      client,
+      signer,
+      consumer,
+      job,
+      directory,
+      {
+        types: ['algorithmLog']
+      }
+    )
+    // eslint-disable-next-line security/detect-non-literal-fs-filename
+    assert.equal(fs.readFileSync(entry.path, 'utf8'), content)
+    const nonces = server.requests
+      .filter((request) => request.service === 'computeResult')
+      .map((request) => Number(request.query.nonce))
+    assert.equal(nonces.length, 2)
+    assert(nonces[1] > nonces[0])
+  })
+
+  it('should refuse jobs that are not finished', async () => {
+    const [job] = (await client.computeStart(
+      signer,
+      consumer,
+      server.environments[0].id,
+      { documentId: did, serviceId: '0' },
+      { documentId: did, serviceId: '1' }
+    )) as ComputeJob[]
+    try {
+      await downloadComputeResults(client, signer, consumer, job, directory)
+      assert.fail('downloadComputeResults should have thrown')
+    } catch (e) {
+      assert.match(e.message, /is not finished/)
+    }
+  })
+})
@@ -0,0 +1,488 @@
+import { assert } from 'chai'
+import Web3 from 'web3'
+import fetch from 'cross-fetch'
+import {
+  Provider,
+  ProviderClient,
+  ComputeJobStatus,
+  PrivateKeySigner,
+  verifyProviderFees,
+  ProviderUnavailableError,
+  EndpointNotFoundError,
+  ProviderAssetNotFoundError,
+  ProviderHttpError,
+  InvalidSignatureError,
+  InvalidFilesError,
+  InvalidConsumerParametersError,
+  ComputeConsumerParameters,
+  DocumentHashMismatchError,
+  getHash,
+  Config,
+  LoggerInstance
+} from '../../../src'
+import { ComputeJob, ConsumerParameter } from '../../../src/@types'
+import { MockProviderServer } from '../../../src/node'
+
+describe('Provider with a mock provider server', () => {
+  const web3 = new Web3()
+  const signer = new PrivateKeySigner(
+    '0xc85ef7d79691fe79573b1a7064c19c1a9819ebdbd1faaab1a8ec92344438aaf4'
+  )
+  const did = 'did:op:a2B8b3aC4207CFCCbDe4Ac7fa40214fd00A2BA71'
+  let server: MockProviderServer
+  let provider: Provider
+  let providerUrl: string
+  let consumer: string
+
+  before(async () => {
+    server = new MockProviderServer()
+    providerUrl = await server.start()
+    consumer = await signer.getAddress()
+  })
+
+  beforeEach(() => {
+    server.reset()
+    provider = new Provider()
+  })
+
+  after(async () => {
+    await server.stop()
+  })
+
+  it('should discover the provider endpoints', async () => {
+    assert(await provider.isValidProvider(providerUrl))
+    const endpoints = await provider.getEndpoints(providerUrl)
+    assert(endpoints.providerAddress === server.providerAddress)
+    const services = await provider.getServiceEndpoints(providerUrl, endpoints)
+    assert(services.find((s) => s.serviceName === 'computeStart').method === 'POST')
+  })
+
+  it('should discover the endpoints again once they expire', async () => {
+    const client = new ProviderClient(providerUrl, { endpointsTtl: 50 })
+    await client.getEndpoints()
+    await client.getEndpoints()
+    assert.equal(server.requests.filter((r) => r.service === 'root').length, 1)
+    await new Promise((resolve) => setTimeout(resolve, 60))
+    await client.getEndpoints()
+    assert.equal(server.requests.filter((r) => r.service === 'root').length, 2)
+  })
+
+  it('should discover the endpoints again when a service answers 404', async () => {
+    const endpoints = await (await fetch(providerUrl)).json()
+    endpoints.serviceEndpoints.encrypt = ['POST', '/api/v0/encrypt']
+    server.respondWith('root', { body: endpoints })
+    const client = new ProviderClient(providerUrl)
+    await client.getEndpoints()
+    server.reset()
+
+    const encrypted = await client.encrypt({ id: did })
+    assert(encrypted.startsWith('0x'))
+    assert.deepEqual(
+      server.requests.map((r) => r.service),
+      ['unknown', 'root', 'encrypt']
+    )
+  })
+
+  it('should drop nonces and auth tokens when the provider version changes', async () => {
+    const client = new ProviderClient(providerUrl)
+    await client.createAuthToken(signer, consumer)
+    assert(client.getAuthToken(consumer))
+    server.version = '2.0.0'
+    try {
+      await client.getEndpoints(true)
+    } finally {
+      server.version = '1.0.20'
+    }
+    assert.equal(client.getAuthToken(consumer), null)
+    server.requests = []
+    await client.nonces.next(consumer)
+    assert(server.requests.some((r) => r.service === 'nonce'))
+  })
+
+  it('should encrypt files and check them', async () => {
+    const encrypted = await provider.encrypt(
+      {
+        nftAddress: server.providerAddress,
+        datatokenAddress: server.providerAddress,
+        files: [{ type: 'ipfs', hash: 'QmQfpdcMWnLTXKKW9GPV7NgtEugghgD6HgzSF6gSrp2mL9' }]
+      },
+      providerUrl
+    )
+    assert(encrypted.startsWith('0x'))
+
+    const files = await provider.checkFile(
+      { type: 'url', url: 'https://example.com/data.csv', method: 'GET' },
+      providerUrl
+    )
+    assert(files[0].valid && files[0].type === 'url')
+  })
+
+  it('should decrypt a document and check its hash', async () => {
+    const ddo = JSON.stringify({ id: did, version: '4.1.0' })
+    const encryptedDocument = await provider.encrypt(JSON.parse(ddo), providerUrl)
+    const request = {
+      encryptedDocument,
+      dataNftAddress: server.providerAddress,
+      documentHash: '0x' + getHash(ddo)
+    }
+    const document = await provider.decrypt(providerUrl, signer, consumer, 8996, request)
+    assert(document === ddo)
+
+    try {
+      await provider.decrypt(providerUrl, signer, consumer, 8996, {
+        ...request,
+        documentHash: '0x' + getHash('another document')
+      })
+      assert.fail('decrypt should have thrown')
+    } catch (e) {
+      assert(e instanceof DocumentHashMismatchError)
+    }
+  })
+
+  it('should reject invalid files before sending them', async () => {
+    try {
+      await provider.checkFile({ type: 'arweave', transactionId: 'nope' }, providerUrl)
+      assert.fail('checkFile should have thrown')
+    } catch (e) {
+      assert(e instanceof InvalidFilesError)
+      assert(e.issues[0].path === 'file.transactionId')
+    }
+    assert(server.requests.length === 0)
+  })
+
+  it('should reject userdata not matching the consumer parameters', async () => {
+    const consumerParameters: ConsumerParameter[] = [
+      { name: 'query', type: 'text', label: 'Query', required: true, default: '' },
+      { name: 'limit', type: 'number', label: 'Limit', required: false, default: 10 },
+      {
+        name: 'format',
+        type: 'select',
+        label: 'Format',
+        required: true,
+        default: 'csv',
+        options: [{ csv: 'CSV' }, { json: 'JSON' }]
+      }
+    ]
+    try {
+      await provider.initialize(
+        did,
+        '0',
+        0,
+        consumer,
+        providerUrl,
+        undefined,
+        { limit: 'ten', format: 'xml' },
+        undefined,
+        undefined,
+        consumerParameters
+      )
+      assert.fail('initialize should have thrown')
+    } catch (e) {
+      assert(e instanceof InvalidConsumerParametersError)
+      assert.deepEqual(
+        e.issues.map((issue) => issue.path),
+        ['query', 'limit', 'format']
+      )
+    }
+    assert(server.requests.length === 0)
+
+    const result = await provider.initialize(
+      did,
+      '0',
+      0,
+      consumer,
+      providerUrl,
+      undefined,
+      { query: 'ocean', limit: '5' },
+      undefined,
+      undefined,
+      consumerParameters
+    )
+    assert(result.providerFee)
+  })
+
+  it('should reject compute userdata not matching the consumer parameters', async () => {
+    const query: ConsumerParameter = {
+      name: 'query',
+      type: 'text',
+      label: 'Query',
+      required: true,
+      default: ''
+    }
+    const consumerParameters: ComputeConsumerParameters = {
+      datasets: { [did]: [query] },
+      algorithm: [{ ...query, name: 'epochs', type: 'number', default: 1 }],
+      algorithmService: [query]
+    }
+    const [env] = await provider.getComputeEnvironments(providerUrl)
+    server.reset()
+    try {
+      await provider.computeStart(
+        providerUrl,
+        signer,
+        consumer,
+        env.id,
+        { documentId: did, serviceId: '0' },
+        { documentId: did, serviceId: '1', algocustomdata: { epochs: 'many' } },
+        undefined,
+        [{ documentId: did, serviceId: '0', userdata: { query: 'ocean' } }],
+        undefined,
+        consumerParameters
+      )
+      assert.fail('computeStart should have thrown')
+    } catch (e) {
+      assert(e instanceof InvalidConsumerParametersError)
+      assert.deepEqual(
+        e.issues.map((issue) => issue.path),
+        [
+          'datasets[0].userdata.query',
+          'algorithm.algocustomdata.epochs',
+          'algorithm.userdata.query'
+        ]
+      )
+    }
+    assert(server.requests.length === 0)
+
+    const result = await provider.initializeCompute(
+      [{ documentId: did, serviceId: '0', userdata: { query: 'ocean' } }],
+      {
+        documentId: did,
+        serviceId: '1',
+        algocustomdata: { epochs: 2 },
+        userdata: { query: 'ocean' }
+      },
+      env.id,
+      0,
+      providerUrl,
+      consumer,
+      undefined,
+      consumerParameters
+    )
+    assert(result.datasets)
+  })
+
+  it('should return provider fees signed by the provider', async () => {
+    const result = await provider.initialize(did, '0', 0, consumer, providerUrl)
+    const verification = await verifyProviderFees(web3, result.providerFee, 0)
+    assert(verification.valid, verification.errors.join(', '))
+    assert(verification.signer === server.providerAddress)
+  })
+
+  it('should select a compute environment from requirements', async () => {
+    const [free] = server.environments
+    server.environments = [
+      free,
+      { ...free, id: 'mock-gpu-env', gpuNumber: 1, gpuType: 'a100', priceMin: 2 }
+    ]
+    const result = await provider.initializeCompute(
+      [{ documentId: did, serviceId: '0' }],
+      { documentId: did, serviceId: '1' },
+      { minGpu: 1, duration: 90 },
+      0,
+      providerUrl,
+      consumer
+    )
+    server.environments = [free]
+    assert(result.computeEnv.environment.id === 'mock-gpu-env')
+    assert(result.computeEnv.estimatedCost === 4)
+    const request = server.requests.find((r) => r.service === 'initializeCompute')
+    assert(request.body.compute.env === 'mock-gpu-env')
+  })
+
+  it('should run a compute job', async () => {
+    const [env] = await provider.getComputeEnvironments(providerUrl)
+    const jobs = (await provider.computeStart(
+      providerUrl,
+      signer,
+      consumer,
+      env.id,
+      { documentId: did, serviceId: '0' },
+      { documentId: did, serviceId: '1' }
+    )) as ComputeJob[]
+    const { jobId } = jobs[0]
+    server.advanceJob(jobId, ComputeJobStatus.Finished)
+
+    const status = (await provider.computeStatus(
+      providerUrl,
+      consumer,
+      jobId
+    )) as ComputeJob[]
+    assert(status[0].status === ComputeJobStatus.Finished)
+    assert(status[0].results.length === 2)
+
+    const resultUrl = await provider.getComputeResultUrl(
+      providerUrl,
+      signer,
+      consumer,
+      jobId,
+      0
+    )
+    const response = await fetch(resultUrl)
+    assert((await response.text()) === `output of ${jobId}`)
+  })
+
+  it('should sign concurrent requests with increasing nonces', async () => {
+    const [env] = await provider.getComputeEnvironments(providerUrl)
+    const start = (p: Provider) =>
+      p.computeStart(
+        providerUrl,
+        signer,
+        consumer,
+        env.id,
+        { documentId: did, serviceId: '0' },
+        { documentId: did, serviceId: '1' }
+      )
+    await Promise.all([start(provider), start(provider), start(provider)])
+    const nonces = server.requests
+      .filter((r) => r.service === 'computeStart')
+      .map((r) => r.body.nonce)
+    assert(new Set(nonces).size === 3)
+
+    // another client moves the provider nonce past the cached one
+    const otherProvider = new Provider()
+    await start(otherProvider)
+    await start(otherProvider)
+    await start(provider)
+    assert(server.jobs.length === 6)
+  })
+
+  it('should use time based nonces when the provider has no nonce endpoint', async () => {
+    server.removeService('nonce')
+    const client = new ProviderClient(providerUrl)
+    const before = Date.now()
+    const [env] = await client.getComputeEnvironments()
+    await client.computeStart(
+      signer,
+      consumer,
+      env.id,
+      { documentId: did, serviceId: '0' },
+      { documentId: did, serviceId: '1' }
+    )
+    const start = server.requests.find((r) => r.service === 'computeStart')
+    assert(start.body.nonce > before)
+  })
+
+  it('should use auth tokens instead of signatures', async () => {
+    const token = await provider.createAuthToken(providerUrl, signer, consumer)
+    assert(token === (await provider.createAuthToken(providerUrl, signer, consumer)))
+    const [env] = await provider.getComputeEnvironments(providerUrl)
+    await provider.computeStart(
+      providerUrl,
+      signer,
+      consumer,
+      env.id,
+      { documentId: did, serviceId: '0' },
+      { documentId: did, serviceId: '1' }
+    )
+    let start = server.requests.find((r) => r.service === 'computeStart')
+    assert(start.headers.authtoken === token && !start.body.signature)
+
+    await provider.logout(signer, consumer)
+    assert(provider.getClient(providerUrl).getAuthToken(consumer) === null)
+    assert(server.requests.some((r) => r.service === 'delete_auth_token'))
+
+    server.requests = []
+    await provider.computeStart(
+      providerUrl,
+      signer,
+      consumer,
+      env.id,
+      { documentId: did, serviceId: '0' },
+      { documentId: did, serviceId: '1' }
+    )
+    start = server.requests.find((r) => r.service === 'computeStart')
+    assert(!start.headers.authtoken && start.body.signature)
+  })
+
+  it('should sign requests when the auth token is rejected', async () => {
+    await provider.createAuthToken(providerUrl, signer, consumer)
+    server.reset()
+    const jobs = await provider.computeStatus(providerUrl, consumer)
+    assert(Array.isArray(jobs) && jobs.length === 0)
+    assert(provider.getClient(providerUrl).getAuthToken(consumer) === null)
+  })
+
+  it('should surface injected failures as typed errors', async () => {
+    server.failNext('computeEnvironments', { status: 503 })
+    try {
+      await provider.getComputeEnvironments(providerUrl)
+      assert.fail('getComputeEnvironments should have thrown')
+    } catch (e) {
+      assert(e instanceof ProviderUnavailableError)
+      assert(e.status === 503)
+    }
+    assert((await provider.getComputeEnvironments(providerUrl)).length === 1)
+
+    try {
+      await provider.checkDidFiles(did, '0', providerUrl)
+      assert.fail('checkDidFiles should have thrown')
+    } catch (e) {
+      assert(e instanceof ProviderAssetNotFoundError)
+    }
+  })
+
+  it('should classify errors by status before message', async () => {
+    server.failNext('create_auth_token', {
+      status: 500,
+      body: { error: 'Could not store the nonce' }
+    })
+    try {
+      await provider.createAuthToken(providerUrl, signer, consumer)
+      assert.fail('createAuthToken should have thrown')
+    } catch (e) {
+      assert(e instanceof ProviderHttpError && !(e instanceof InvalidSignatureError))
+      assert(e.payload.includes('signature=[redacted]'))
+      assert(e.payload.includes(`address=${consumer}`))
+    }
+    // not retried with a resynced nonce
+    assert.equal(
+      server.requests.filter((r) => r.service === 'create_auth_token').length,
+      1
+    )
+
+    server.failNext('create_auth_token', {
+      status: 400,
+      body: { error: 'Invalid signature' }
+    })
+    await provider.createAuthToken(providerUrl, signer, consumer)
+    assert.equal(
+      server.requests.filter((r) => r.service === 'create_auth_token').length,
+      3
+    )
+  })
+
+  it('should create auth tokens with the message and expiration of the Config', async () => {
+    const config = new Config()
+    config.authMessage = 'Sign in to the marketplace'
+    config.authTokenExpiration = 60 * 1000
+    const messages: string[] = []
+    const { log } = LoggerInstance
+    LoggerInstance.log = (...args: any[]) => messages.push(args.join(' '))
+    try {
+      const before = Date.now()
+      await new Provider(config).createAuthToken(providerUrl, signer, consumer)
+      const request = server.requests.find((r) => r.service === 'create_auth_token')
+      const expiration = Number(request.query.expiration)
+      assert(expiration >= Math.floor((before + 60 * 1000) / 1000))
+      assert(expiration <= Math.floor((Date.now() + 60 * 1000) / 1000))
+      assert.deepEqual(messages, ['Sign in to the marketplace'])
+    } finally {
+      LoggerInstance.log = log
+    }
+  })
+
+  it('should fail when a service is not exposed', async () => {
+    server.removeService('computeEnvironments')
+    try {
+      await provider.getComputeEnvironments(providerUrl)
+      assert.fail('getComputeEnvironments should have thrown')
+    } catch (e) {
+      assert(e instanceof EndpointNotFoundError)
+    }
+  })
+
+  it('should use scripted responses', async () => {
+    server.respondWith('nonce', { body: { nonce: 42 } })
+    assert((await provider.getNonce(providerUrl, consumer)) === '42')
+  })
+})
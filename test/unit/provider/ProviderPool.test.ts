@@ -0,0 +1,88 @@
+import { assert } from 'chai'
+import { ProviderPool, ProviderUnavailableError } from '../../../src'
+import { MockProviderServer } from '../../../src/node'
+
+describe('ProviderPool', () => {
+  const otherKey = '0x8da4ef21b864d2cc526dbdb2a120bd2874c36c9d0a1fb7f8c63d7f7a8b41de8f'
+  let first: MockProviderServer
+  let second: MockProviderServer
+  let pool: ProviderPool
+
+  before(async () => {
+    first = new MockProviderServer()
+    second = new MockProviderServer({ privateKey: otherKey })
+    await first.start()
+    await second.start()
+  })
+
+  beforeEach(() => {
+    first.reset()
+    second.reset()
+    pool = new ProviderPool([first.url, second.url], { interval: 0 })
+  })
+
+  after(async () => {
+    await first.stop()
+    await second.stop()
+  })
+
+  it('should health check every provider', async () => {
+    second.removeService('encrypt')
+    const health = await pool.start()
+    const firstHealth = health.find((h) => h.providerUri === first.url)
+    const secondHealth = health.find((h) => h.providerUri === second.url)
+    assert(firstHealth.healthy && firstHealth.latency !== null)
+    assert(!secondHealth.healthy)
+    assert.deepEqual(secondHealth.missingServices, ['encrypt'])
+    assert((await pool.getBestClient()).providerUri === first.url)
+  })
+
+  it('should fail over when a provider goes down', async () => {
+    await pool.start()
+    const best = (await pool.getBestClient()).providerUri
+    const [down, up] = best === first.url ? [first, second] : [second, first]
+    down.failNext('computeEnvironments', { networkError: true })
+
+    const used = await pool.request(async (client) => {
+      await client.getComputeEnvironments()
+      return client.providerUri
+    })
+    assert(used === up.url)
+    assert(!pool.getHealth().find((h) => h.providerUri === down.url).healthy)
+  })
+
+  it('should check unhealthy providers again after the cooldown', async () => {
+    pool = new ProviderPool([first.url], { interval: 0, cooldown: 50 })
+    first.failNext('root', { networkError: true })
+    const [health] = await pool.start()
+    assert(!health.healthy)
+    try {
+      await pool.getBestClient()
+      assert.fail('getBestClient should have thrown')
+    } catch (e) {
+      assert(e instanceof ProviderUnavailableError)
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, 60))
+    const client = await pool.getBestClient()
+    assert.equal(client.providerUri, first.url)
+    assert(pool.getHealth()[0].healthy)
+  })
+
+  it('should only use providers bound to the requested address', async () => {
+    await pool.start()
+    const client = await pool.getBestClient({ providerAddress: second.providerAddress })
+    assert(client.providerUri === second.url)
+
+    second.failNext('encrypt', { status: 503 })
+    try {
+      await pool.request((c) => c.encrypt('data'), {
+        providerAddress: second.providerAddress
+      })
+      assert.fail('request should have thrown')
+    } catch (e) {
+      assert(e instanceof ProviderUnavailableError)
+    }
+    assert(first.requests.every((r) => r.service !== 'encrypt'))
+  })
+})
@@ -0,0 +1,71 @@
+import { assert } from 'chai'
+import { getConsumability } from '../../../src'
+import { Asset } from '../../../src/@types'
+
+describe('Consumability', () => {
+  const consumer = '0x5BF0ac58D48C1A4bEb1b8C4A4e1E7D2F9c4E7f11'
+
+  function createAsset(): Asset {
+    return {
+      id: 'did:op:1',
+      nft: { state: 0 },
+      purgatory: { state: false, reason: '' },
+      services: [{ id: 'access', type: 'access', timeout: 3600 }]
+    } as Asset
+  }
+
+  it('should accept an active asset', async () => {
+    const verdict = await getConsumability(createAsset(), consumer, 'access')
+    assert(verdict.consumable)
+    assert(verdict.timeout === 3600)
+    assert(verdict.hasPricing === undefined)
+  })
+
+  it('should report every reason the asset can not be consumed', async () => {
+    const asset = createAsset()
+    asset.nft.state = 2
+    asset.purgatory = { state: true, reason: 'reported' }
+    asset.credentials = {
+      allow: [
+        { type: 'address', values: ['0x0000000000000000000000000000000000000001'] }
+      ],
+      deny: []
+    }
+    const verdict = await getConsumability(asset, consumer, 'compute')
+    assert(!verdict.consumable)
+    assert.deepEqual(
+      verdict.issues.map((issue) => issue.reason),
+      ['nft-not-active', 'purgatory', 'address-not-allowed', 'service-not-found']
+    )
+    assert(verdict.service === null)
+  })
+
+  it('should deny listed addresses whatever their case', async () => {
+    const asset = createAsset()
+    asset.nft.state = 4
+    asset.credentials = {
+      allow: [{ type: 'address', values: [consumer] }],
+      deny: [{ type: 'address', values: [consumer.toLowerCase()] }]
+    }
+    const verdict = await getConsumability(asset, consumer, 'access')
+    assert.deepEqual(
+      verdict.issues.map((issue) => issue.reason),
+      ['ordering-disabled', 'address-denied']
+    )
+  })
+
+  it('should report allow lists of unsupported credential types', async () => {
+    const asset = createAsset()
+    asset.credentials = {
+      allow: [{ type: 'email', values: ['alice@example.com'] }],
+      deny: []
+    }
+    const verdict = await getConsumability(asset, consumer, 'access')
+    assert.deepEqual(verdict.issues, [
+      {
+        reason: 'unsupported-credential-type',
+        message: 'Credential type email is not supported'
+      }
+    ])
+  })
+})
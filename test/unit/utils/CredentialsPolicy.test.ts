@@ -0,0 +1,62 @@
+import { assert } from 'chai'
+import { CredentialsPolicy } from '../../../src'
+import { DDO } from '../../../src/@types'
+
+describe('CredentialsPolicy', () => {
+  const alice = '0xAbCdEf0123456789aBcDeF0123456789AbCdEf01'
+  const bob = '0x1111111111111111111111111111111111111111'
+  const policy = new CredentialsPolicy()
+
+  it('should deny before checking the allow lists', () => {
+    const credentials = {
+      allow: [{ type: 'address', values: [alice] }],
+      deny: [{ type: 'address', values: [alice.toLowerCase()] }]
+    }
+    const evaluation = policy.evaluate(credentials, { address: alice })
+    assert(!evaluation.allowed)
+    assert(evaluation.reason === 'denied')
+    assert(policy.evaluate(undefined, { address: bob }).allowed)
+  })
+
+  it('should only allow listed subjects', () => {
+    const credentials = { allow: [{ type: 'address', values: [alice] }], deny: [] }
+    assert(policy.evaluate(credentials, { address: alice.toUpperCase() }).allowed)
+    assert(policy.evaluate(credentials, { address: bob }).reason === 'not-allowed')
+    assert(policy.evaluate(credentials, {}).reason === 'not-allowed')
+  })
+
+  it('should evaluate registered credential types', () => {
+    const custom = new CredentialsPolicy()
+    custom.register({ type: 'email', normalize: (value) => value.trim().toLowerCase() })
+    const credentials = {
+      allow: [{ type: 'email', values: ['Alice@Ocean.com'] }],
+      deny: []
+    }
+    assert(custom.evaluate(credentials, { email: 'alice@ocean.com' }).allowed)
+    // types the policy does not know reject everyone when allow listed
+    assert(!policy.evaluate(credentials, { email: 'alice@ocean.com' }).allowed)
+  })
+
+  it('should edit credentials without modifying the DDO', () => {
+    const ddo = {
+      id: 'did:op:1',
+      credentials: { allow: [{ type: 'address', values: [alice] }], deny: [] }
+    } as DDO
+    const added = policy.add(ddo, 'allow', 'address', [bob, alice.toLowerCase()])
+    assert.deepEqual(added.credentials.allow, [
+      { type: 'address', values: [alice.toLowerCase(), bob] }
+    ])
+    assert.deepEqual(ddo.credentials.allow, [{ type: 'address', values: [alice] }])
+
+    const removed = policy.remove(added, 'allow', 'address', [alice])
+    assert.deepEqual(removed.credentials.allow, [{ type: 'address', values: [bob] }])
+
+    const replaced = policy.replace(added, 'deny', 'address', [bob])
+    assert.deepEqual(replaced.credentials.deny, [{ type: 'address', values: [bob] }])
+    assert.deepEqual(
+      policy.replace(replaced, 'allow', 'address', []).credentials.allow,
+      []
+    )
+    assert.throws(() => policy.add(ddo, 'deny', 'address', ['0x12']))
+  })
+})
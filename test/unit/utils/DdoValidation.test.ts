@@ -0,0 +1,77 @@
+import { assert } from 'chai'
+import { generateDid, validateDdo } from '../../../src'
+import { DDO } from '../../../src/@types'
+
+describe('DDO validation', () => {
+  const nftAddress = '0xBa3e0EC852Dc24cA7F454ea545D40B1462501711'
+  const datatokenAddress = '0xa15024b732A8f2146423D14209eFd074e61964F3'
+
+  function createDdo(): DDO {
+    return {
+      '@context': ['https://w3id.org/did/v1'],
+      id: generateDid(nftAddress, 8996),
+      version: '4.1.0',
+      chainId: 8996,
+      nftAddress,
+      metadata: {
+        created: '2021-12-20T14:35:20Z',
+        updated: '2021-12-20T14:35:20Z',
+        type: 'dataset',
+        name: 'dataset-name',
+        description: 'Ocean protocol test dataset description',
+        author: 'oceanprotocol-team',
+        license: 'MIT',
+        tags: ['white-papers']
+      },
+      services: [
+        {
+          id: 'testFakeId',
+          type: 'access',
+          files: '0x0123',
+          datatokenAddress,
+          serviceEndpoint: 'https://v4.provider.oceanprotocol.com',
+          timeout: 0
+        }
+      ]
+    }
+  }
+
+  it('should accept a valid DDO', () => {
+    assert.deepEqual(validateDdo(createDdo()), [])
+  })
+
+  it('should report every issue with its path', () => {
+    const ddo = createDdo()
+    ddo.chainId = 137
+    ddo.metadata.created = '20/12/2021'
+    ddo.metadata.type = 'model' as any
+    ddo.services.push({ ...ddo.services[0], type: 'compute', timeout: -1 })
+    ddo.credentials = { allow: [{ type: 'address', values: [1 as any] }], deny: [] }
+
+    const paths = validateDdo(ddo).map((issue) => issue.path)
+    assert.deepEqual(paths, [
+      'id',
+      'metadata.created',
+      'metadata.type',
+      'services[1].timeout',
+      'services[1].compute',
+      'services[1].id',
+      'credentials.allow[0].values'
+    ])
+  })
+
+  it('should require the algorithm section of algorithms', () => {
+    const ddo = createDdo()
+    ddo.metadata.type = 'algorithm'
+    assert.deepEqual(validateDdo(ddo), [
+      { path: 'metadata.algorithm', message: 'must be an object' }
+    ])
+    ddo.metadata.algorithm = {
+      container: { entrypoint: 'node $ALGO', image: 'node', tag: 'latest', checksum: '' }
+    }
+    assert.deepEqual(
+      validateDdo(ddo).map((issue) => issue.path),
+      ['metadata.algorithm.container.checksum']
+    )
+  })
+})
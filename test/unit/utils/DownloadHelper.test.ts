@@ -0,0 +1,161 @@
+import { assert } from 'chai'
+import fs from 'fs'
+import http from 'http'
+import os from 'os'
+import path from 'path'
+import { createHash } from 'crypto'
+import { AddressInfo, Socket } from 'net'
+import { PrivateKeySigner, ProviderClient } from '../../../src'
+import { downloadFileStream, MockProviderServer } from '../../../src/node'
+
+describe('DownloadHelper', () => {
+  const content = Buffer.from('ocean protocol data '.repeat(500))
+  const checksum = createHash('sha256').update(content).digest('hex')
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ocean-download-'))
+  const sockets = new Set<Socket>()
+  let handler: (req: http.IncomingMessage, res: http.ServerResponse) => void
+  let ranges: string[]
+  let server: http.Server
+  let url: string
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      ranges.push(req.headers.range)
+      handler(req, res)
+    })
+    server.on('connection', (socket) => {
+      sockets.add(socket)
+      socket.on('close', () => sockets.delete(socket))
+    })
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', () => resolve()))
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/data.txt`
+  })
+
+  beforeEach(() => {
+    ranges = []
+  })
+
+  after(async () => {
+    sockets.forEach((socket) => socket.destroy())
+    await new Promise((resolve) => server.close(resolve))
+    fs.rmSync(directory, { recursive: true, force: true })
+  })
+
+  function sendRange(req: http.IncomingMessage, res: http.ServerResponse) {
+    const start = Number(/bytes=(\d+)-/.exec(req.headers.range || '')?.[1] || 0)
+    if (start >= content.length) {
+      res.writeHead(416, { 'Content-Range': `bytes */${content.length}` })
+      res.end()
+      return
+    }
+    res.writeHead(start > 0 ? 206 : 200, {
+      'Content-Length': content.length - start,
+      'Content-Range': `bytes ${start}-${content.length - 1}/${content.length}`
+    })
+    res.end(content.subarray(start))
+  }
+
+  it('should resume an interrupted transfer with a range request', async () => {
+    let requests = 0
+    handler = (req, res) => {
+      if (requests++ > 0) return sendRange(req, res)
+      res.writeHead(200, { 'Content-Length': content.length })
+      res.write(content.subarray(0, 4000), () => res.socket.destroy())
+    }
+    const destination = path.join(directory, 'resumed.txt')
+    const result = await downloadFileStream(url, destination, {
+      checksum,
+      // a dropped connection does not always end the body
+      stallTimeout: 200,
+      retryDelay: 10
+    })
+    assert.deepEqual(ranges, [undefined, 'bytes=4000-'])
+    assert.equal(result.size, content.length)
+    assert.equal(result.checksum, checksum)
+    // eslint-disable-next-line security/detect-non-literal-fs-filename
+    assert(fs.readFileSync(destination).equals(content))
+  })
+
+  it('should accept a complete partial file answered with 416', async () => {
+    handler = sendRange
+    const destination = path.join(directory, 'complete.txt')
+    // eslint-disable-next-line security/detect-non-literal-fs-filename
+    fs.writeFileSync(destination, content)
+    const result = await downloadFileStream(url, destination, { resume: true, checksum })
+    assert.deepEqual(ranges, [`bytes=${content.length}-`])
+    assert.equal(result.size, content.length)
+  })
+
+  it('should fail when no data arrives for the stall timeout', async () => {
+    handler = (req, res) => {
+      res.writeHead(200, { 'Content-Length': content.length })
+      res.write(content.subarray(0, 100))
+    }
+    try {
+      await downloadFileStream(url, path.join(directory, 'stalled.txt'), {
+        stallTimeout: 100,
+        maxRetries: 0
+      })
+      assert.fail('downloadFileStream should have thrown')
+    } catch (e) {
+      assert.match(e.message, /No data received for 100 ms/)
+    }
+  })
+
+  it('should fail when the checksum does not match', async () => {
+    handler = sendRange
+    try {
+      await downloadFileStream(url, path.join(directory, 'corrupted.txt'), {
+        checksum: createHash('sha256').update('other data').digest('hex')
+      })
+      assert.fail('downloadFileStream should have thrown')
+    } catch (e) {
+      assert.match(e.message, /Checksum mismatch/)
+    }
+  })
+
+  it('should sign a new provider url for every attempt', async () => {
+    const provider = new MockProviderServer()
+    await provider.start()
+    const signer = new PrivateKeySigner(
+      '0xc85ef7d79691fe79573b1a7064c19c1a9819ebdbd1faaab1a8ec92344438aaf4'
+    )
+    const consumer = await signer.getAddress()
+    const client = new ProviderClient(provider.url)
+    const data = content.toString()
+    provider.respondWith('download', (request) => {
+      const range = /bytes=(\d+)-/.exec((request.headers.range as string) || '')
+      if (!range) {
+        // the connection stays open, the rest of the declared length never arrives
+        return {
+          body: data.slice(0, 4000),
+          headers: { 'Content-Length': String(content.length) }
+        }
+      }
+      const start = Number(range[1])
+      return {
+        status: 206,
+        body: data.slice(start),
+        headers: {
+          'Content-Range': `bytes ${start}-${content.length - 1}/${content.length}`
+        }
+      }
+    })
+    try {
+      const destination = path.join(directory, 'provider.txt')
+      const result = await downloadFileStream(
+        () => client.getDownloadUrl('did:op:1', consumer, '0', 0, '0xabc', signer),
+        destination,
+        { checksum, stallTimeout: 200, retryDelay: 10 }
+      )
+      assert.equal(result.size, content.length)
+      const nonces = provider.requests
+        .filter((request) => request.service === 'download')
+        .map((request) => Number(request.query.nonce))
+      assert.equal(nonces.length, 2)
+      assert(nonces[1] > nonces[0])
+    } finally {
+      await provider.stop()
+    }
+  })
+})
@@ -0,0 +1,136 @@
+import { assert } from 'chai'
+import Web3 from 'web3'
+import {
+  Datatoken,
+  getProviderFeesMessage,
+  InvalidProviderFeesError,
+  verifyProviderFees
+} from '../../../src'
+import { ProviderFees } from '../../../src/@types'
+
+describe('ProviderFeesVerifier', () => {
+  const providerKey = '0x4c0883a69102937d6231471b5dbb6204fe5129617082792ae468d01a3f362318'
+  const otherKey = '0x8da4ef21b864d2cc526dbdb2a120bd2874c36c9d0a1fb7f8c63d7f7a8b41de8f'
+  const web3 = new Web3()
+  const providerAddress = web3.eth.accounts.privateKeyToAccount(providerKey).address
+  const dtAddress = '0x2222222222222222222222222222222222222222'
+  const consumer = '0x3333333333333333333333333333333333333333'
+
+  function signFees(
+    privateKey = providerKey,
+    fields: Partial<ProviderFees> = {}
+  ): ProviderFees {
+    const fees: ProviderFees = {
+      providerFeeAddress: providerAddress,
+      providerFeeToken: '0x0000000000000000000000000000000000000000',
+      providerFeeAmount: '1000',
+      providerData: web3.utils.utf8ToHex(JSON.stringify({ environment: 'test' })),
+      validUntil: '0',
+      v: null,
+      r: null,
+      s: null,
+      ...fields
+    }
+    const { v, r, s } = web3.eth.accounts.sign(
+      getProviderFeesMessage(web3, fees),
+      privateKey
+    )
+    return { ...fees, v, r, s }
+  }
+
+  // answers every RPC call with an error, so orders fail after the fee check
+  function createOfflineWeb3(methods: string[]): Web3 {
+    const provider = {
+      send(payload: any, callback: (error: Error, result?: any) => void) {
+        methods.push(payload.method)
+        callback(null, {
+          jsonrpc: '2.0',
+          id: payload.id,
+          error: { code: -32000, message: 'offline' }
+        })
+      }
+    }
+    return new Web3(provider as any)
+  }
+
+  it('should accept fees signed by the provider without expiry', async () => {
+    const verification = await verifyProviderFees(web3, signFees(), 1650000000)
+    assert(verification.valid, verification.errors.join(', '))
+    assert.equal(verification.signer, providerAddress)
+    assert.equal(verification.expired, false)
+  })
+
+  it('should reject fees signed by another address', async () => {
+    const verification = await verifyProviderFees(web3, signFees(otherKey))
+    assert(!verification.valid)
+    assert.notEqual(verification.signer, providerAddress)
+    assert.include(verification.errors[0], `instead of ${providerAddress}`)
+  })
+
+  it('should reject fees with a tampered amount or token', async () => {
+    const amount = await verifyProviderFees(web3, {
+      ...signFees(),
+      providerFeeAmount: '1'
+    })
+    const token = await verifyProviderFees(web3, {
+      ...signFees(),
+      providerFeeToken: '0x4444444444444444444444444444444444444444'
+    })
+    assert(!amount.valid)
+    assert(!token.valid)
+    assert.notEqual(amount.signer, providerAddress)
+    assert.notEqual(token.signer, providerAddress)
+  })
+
+  it('should reject expired fees', async () => {
+    const fees = signFees(providerKey, { validUntil: '1650000000' })
+    const verification = await verifyProviderFees(web3, fees, 1650000001)
+    assert(!verification.valid)
+    assert(verification.expired)
+    assert.match(verification.errors[0], /expired at 1650000000/)
+    assert((await verifyProviderFees(web3, fees, 1650000000)).valid)
+  })
+
+  it('should refuse to order with invalid fees', async () => {
+    const methods: string[] = []
+    const datatoken = new Datatoken(createOfflineWeb3(methods))
+    const fees = signFees(otherKey)
+    for (const order of [
+      () => datatoken.startOrder(dtAddress, consumer, consumer, 0, fees),
+      () => datatoken.reuseOrder(dtAddress, consumer, '0xabc', fees)
+    ]) {
+      try {
+        await order()
+        assert.fail('the order should have thrown')
+      } catch (e) {
+        assert(e instanceof InvalidProviderFeesError)
+        assert.equal(
+          e.verification.signer,
+          web3.eth.accounts.privateKeyToAccount(otherKey).address
+        )
+      }
+    }
+    assert.deepEqual(methods, [])
+  })
+
+  it('should send orders with invalid fees when verification is off', async () => {
+    const methods: string[] = []
+    const datatoken = new Datatoken(createOfflineWeb3(methods))
+    const fees = signFees(otherKey)
+    for (const order of [
+      () =>
+        datatoken.startOrder(dtAddress, consumer, consumer, 0, fees, undefined, false),
+      () => datatoken.reuseOrder(dtAddress, consumer, '0xabc', fees, false)
+    ]) {
+      try {
+        await order()
+        assert.fail('the order should have thrown')
+      } catch (e) {
+        assert(!(e instanceof InvalidProviderFeesError))
+        assert.match(e.message, /offline/)
+      }
+    }
+    // both orders reached the chain
+    assert.equal(methods.filter((method) => method === 'eth_estimateGas').length, 2)
+  })
+})
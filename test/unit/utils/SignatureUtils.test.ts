@@ -0,0 +1,27 @@
+import { assert } from 'chai'
+import { PrivateKeySigner, signProviderRequest } from '../../../src'
+
+describe('SignatureUtils', () => {
+  const signer = new PrivateKeySigner(
+    '0xc85ef7d79691fe79573b1a7064c19c1a9819ebdbd1faaab1a8ec92344438aaf4'
+  )
+
+  it('should sign provider requests with a Signer of the account', async () => {
+    const address = await signer.getAddress()
+    const signature = await signProviderRequest(signer, address.toLowerCase(), 'message')
+    assert.match(signature, /^0x[0-9a-f]{130}$/)
+  })
+
+  it('should refuse a Signer of another account', async () => {
+    try {
+      await signProviderRequest(
+        signer,
+        '0x1111111111111111111111111111111111111111',
+        'message'
+      )
+      assert.fail('signProviderRequest should have thrown')
+    } catch (e) {
+      assert.match(e.message, /does not match/)
+    }
+  })
+})
@@ -0,0 +1,89 @@
+import { assert } from 'chai'
+import Web3 from 'web3'
+import {
+  Eip1193Signer,
+  PrivateKeySigner,
+  TypedDataDomain,
+  TypedDataTypes,
+  Web3Signer
+} from '../../../src'
+
+describe('Signer', () => {
+  const web3 = new Web3()
+  // Mail example of the EIP-712 specification
+  const privateKey = web3.utils.keccak256('cow')
+  const address = '0xCD2a3d9F938E13CD947Ec05AbC7FE734Df8DD826'
+  const digest = '0xbe609aee343fb3c4b28e1df9e632fca64fcfaede20f02e86244efddf30957bd2'
+  const domain: TypedDataDomain = {
+    name: 'Ether Mail',
+    version: '1',
+    chainId: 1,
+    verifyingContract: '0xCcCCccccCCCCcCCCCCCcCcCccCcCCCcCcccccccC'
+  }
+  const types: TypedDataTypes = {
+    Person: [
+      { name: 'name', type: 'string' },
+      { name: 'wallet', type: 'address' }
+    ],
+    Mail: [
+      { name: 'from', type: 'Person' },
+      { name: 'to', type: 'Person' },
+      { name: 'contents', type: 'string' }
+    ]
+  }
+  const value = {
+    from: { name: 'Cow', wallet: '0xCD2a3d9F938E13CD947Ec05AbC7FE734Df8DD826' },
+    to: { name: 'Bob', wallet: '0xbBbBBBBbbBBBbbbBbbBbbbbBBbBbbbbBbBbbBBbB' },
+    contents: 'Hello, Bob!'
+  }
+
+  // signs eth_signTypedData_v4 requests like a wallet holding the key
+  async function signTypedDataRequest(method: string, params: any[]): Promise<string> {
+    assert.equal(method, 'eth_signTypedData_v4')
+    assert.equal(params[0], address)
+    const payload = JSON.parse(params[1])
+    assert.equal(payload.primaryType, 'Mail')
+    const { EIP712Domain, ...structTypes } = payload.types
+    assert.deepEqual(
+      EIP712Domain.map((field: { name: string }) => field.name),
+      Object.keys(domain)
+    )
+    return new PrivateKeySigner(privateKey).signTypedData(
+      payload.domain,
+      structTypes,
+      payload.message
+    )
+  }
+
+  it('should sign typed data with a private key', async () => {
+    const signer = new PrivateKeySigner(privateKey)
+    assert.equal(await signer.getAddress(), address)
+    const signature = await signer.signTypedData(domain, types, value)
+    assert.equal(web3.eth.accounts.recover(digest, signature, true), address)
+  })
+
+  it('should sign typed data with an EIP-1193 wallet', async () => {
+    const signer = new Eip1193Signer(
+      {
+        request: ({ method, params }) => signTypedDataRequest(method, params)
+      },
+      address
+    )
+    const signature = await signer.signTypedData(domain, types, value)
+    assert.equal(web3.eth.accounts.recover(digest, signature, true), address)
+  })
+
+  it('should sign typed data with the web3 provider', async () => {
+    const provider = {
+      send(payload: any, callback: (error: Error, result?: any) => void) {
+        signTypedDataRequest(payload.method, payload.params).then(
+          (result) => callback(null, { jsonrpc: '2.0', id: payload.id, result }),
+          callback
+        )
+      }
+    }
+    const signer = new Web3Signer(new Web3(provider as any), address)
+    const signature = await signer.signTypedData(domain, types, value)
+    assert.equal(web3.eth.accounts.recover(digest, signature, true), address)
+  })
+})